@@ -1,5 +1,12 @@
+import { sqliteDialect } from './dialects'
 import { ConflictTypes, FetchTypes, JoinTypes, OrderTypes } from './enums'
-import { MissingDataError, MissingSubqueryContextError, ParameterMismatchError, SubqueryTokenError } from './errors'
+import {
+  InvalidConfigurationError,
+  MissingDataError,
+  MissingSubqueryContextError,
+  ParameterMismatchError,
+  SubqueryTokenError,
+} from './errors'
 import {
   AfterQueryHook,
   ArrayResult,
@@ -10,12 +17,15 @@ import {
   Delete,
   DeleteReturning,
   DeleteWithoutReturning,
+  Dialect,
   InferResult,
   Insert,
   InsertMultiple,
   InsertOne,
   InsertWithoutReturning,
+  IsLazy,
   Join,
+  LazyOptions,
   MaybeAsync,
   OneResult,
   QueryBuilderOptions,
@@ -37,9 +47,31 @@ import {
   Where,
 } from './interfaces'
 import { asyncLoggerWrapper, defaultLogger } from './logger'
-import { SelectBuilder } from './modularBuilder'
+import { DeleteBuilder, InsertBuilder, SelectBuilder, UpdateBuilder } from './modularBuilder'
 import { ColumnName, TableName, TableSchema } from './schema'
-import { Query, QueryWithExtra, Raw } from './tools'
+import { TableDefinition } from './table'
+import {
+  compileNamedParams,
+  compilePlaceholders,
+  compileWhereObject,
+  isNamedParams,
+  isWhereObject,
+  Query,
+  QueryWithExtra,
+  queryTables,
+  Raw,
+  splitStatements,
+} from './tools'
+
+// A plain or qualified identifier, like users, public.users, u.name or u.*
+const IDENTIFIER_REGEX = /^[A-Za-z_][A-Za-z0-9_$]*(\.([A-Za-z_][A-Za-z0-9_$]*|\*))*$/
+// An identifier followed by an alias, like users u or u.name AS author
+const ALIASED_IDENTIFIER_REGEX = /^(\S+)(\s+(?:AS\s+)?)([A-Za-z_][A-Za-z0-9_$]*)$/i
+// An identifier followed by a sort direction, like created_at DESC
+const ORDERED_IDENTIFIER_REGEX = /^(\S+)(\s+(?:ASC|DESC)(?:\s+NULLS\s+(?:FIRST|LAST))?)$/i
+const ORDER_DIRECTION_REGEX = /^(?:ASC|DESC)(?:\s+NULLS\s+(?:FIRST|LAST))?$/i
+// Keywords that start an expression, like DISTINCT name, rather than an identifier followed by its alias
+const LEADING_KEYWORD_REGEX = /^(?:ALL|CASE|CAST|DISTINCT|EXISTS|INTERVAL|NOT|NULL)$/i
 
 export class QueryBuilder<
   Schema extends TableSchema = {},
@@ -47,10 +79,14 @@ export class QueryBuilder<
   IsAsync extends boolean = true,
 > {
   protected options: QueryBuilderOptions<IsAsync>
+  public readonly dialect: Dialect
   loggerWrapper = asyncLoggerWrapper
+  // Tables of the query being compiled, the strictIdentifiers allowlist checks its columns against their entries
+  protected _tables: Array<string> | null = null
 
   constructor(options?: QueryBuilderOptions<IsAsync>) {
     this.options = options || {}
+    this.dialect = this.options.dialect ?? sqliteDialect
   }
 
   setDebugger(state: boolean): void {
@@ -111,21 +147,56 @@ export class QueryBuilder<
     throw new Error('Batch execute method not implemented')
   }
 
-  lazyExecute(query: Query<any, IsAsync>): IsAsync extends true ? Promise<AsyncIterable<any>> : Iterable<any> {
+  lazyExecute(
+    query: Query<any, IsAsync>,
+    options?: LazyOptions
+  ): IsAsync extends true ? Promise<AsyncIterable<any>> : Iterable<any> {
     throw new Error('Execute lazyExecute not implemented')
   }
 
-  createTable<GenericResult = undefined>(params: {
-    tableName: string
-    schema: string
-    ifNotExists?: boolean
-  }): Query<ArrayResult<GenericResultWrapper, GenericResult, IsAsync>, IsAsync> {
+  /**
+   * Queries of the statements of an SQL script, split with `splitStatements()`.
+   * Unlike `raw()`, statements are kept verbatim: their whitespace is not collapsed and their placeholders are not
+   * compiled, as function bodies and string literals depend on both.
+   */
+  _scriptQueries(script: string): Array<Query<GenericResultWrapper, IsAsync>> {
+    return splitStatements(script).map((statement) => {
+      const query = new Query<GenericResultWrapper, IsAsync>((q) => this.execute(q), statement)
+      // The constructor collapses the whitespace
+      query.query = statement
+      return query
+    })
+  }
+
+  createTable<GenericResult = undefined>(
+    params:
+      | {
+          tableName: string
+          schema: string
+          ifNotExists?: boolean
+        }
+      | {
+          tableName?: string
+          schema: TableDefinition
+          ifNotExists?: boolean
+        }
+  ): Query<ArrayResult<GenericResultWrapper, GenericResult, IsAsync>, IsAsync> {
+    const definition = params.schema instanceof TableDefinition ? params.schema : null
+    const tableName = params.tableName ?? definition!.name
+    const schema = definition
+      ? definition.columnsSQL(this.dialect, (name, table) => {
+          if (table === undefined) return this._identifier(name, 'table')
+          // The columns of the definition belong to the created table, which tableName may rename
+          return this._identifier(name, 'column', [table === definition.name ? tableName : table])
+        })
+      : (params.schema as string)
+
     return new Query(
       (q) => {
         return this.execute(q)
       },
-      `CREATE TABLE ${params.ifNotExists ? 'IF NOT EXISTS' : ''} ${params.tableName}
-      ( ${params.schema})`
+      `CREATE TABLE ${params.ifNotExists ? 'IF NOT EXISTS' : ''} ${this._identifier(tableName, 'table')}
+      ( ${schema})`
     )
   }
 
@@ -137,7 +208,7 @@ export class QueryBuilder<
       (q) => {
         return this.execute(q)
       },
-      `DROP TABLE ${params.ifExists ? 'IF EXISTS' : ''} ${params.tableName}`
+      `DROP TABLE ${params.ifExists ? 'IF EXISTS' : ''} ${this._identifier(params.tableName, 'table')}`
     )
   }
 
@@ -153,6 +224,7 @@ export class QueryBuilder<
     return new SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync>(
       {
         tableName: tableName,
+        identifier: (column: string, tables?: Array<string>) => this._identifier(column, 'column', tables),
       },
       (params: SelectAll) => {
         return this.fetchAll<GenericResult>(params)
@@ -163,6 +235,67 @@ export class QueryBuilder<
     )
   }
 
+  // Schema-aware overload: when Schema is defined, tableName is restricted to table names
+  insertInto<T extends TableName<Schema>>(tableName: T): InsertBuilder<Schema, GenericResultWrapper, Schema[T], IsAsync>
+  // Fallback overload: when Schema is empty or explicit result type is provided
+  insertInto<GenericResult = DefaultReturnObject>(
+    tableName: string
+  ): InsertBuilder<{}, GenericResultWrapper, GenericResult, IsAsync>
+  insertInto<T extends string, GenericResult = DefaultReturnObject>(
+    tableName: T
+  ): InsertBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync> {
+    return new InsertBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync>(
+      {
+        tableName: tableName,
+      },
+      (params: Insert) => {
+        return this.insert(params as InsertWithoutReturning) as Query<any, IsAsync>
+      }
+    )
+  }
+
+  // Schema-aware overload: when Schema is defined, tableName is restricted to table names
+  updateTable<T extends TableName<Schema>>(
+    tableName: T
+  ): UpdateBuilder<Schema, GenericResultWrapper, Schema[T], IsAsync>
+  // Fallback overload: when Schema is empty or explicit result type is provided
+  updateTable<GenericResult = DefaultReturnObject>(
+    tableName: string
+  ): UpdateBuilder<{}, GenericResultWrapper, GenericResult, IsAsync>
+  updateTable<T extends string, GenericResult = DefaultReturnObject>(
+    tableName: T
+  ): UpdateBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync> {
+    return new UpdateBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync>(
+      {
+        tableName: tableName,
+        identifier: (column: string, tables?: Array<string>) => this._identifier(column, 'column', tables),
+      },
+      (params: Update) => {
+        return this.update(params as UpdateWithoutReturning) as Query<any, IsAsync>
+      }
+    )
+  }
+
+  // Schema-aware overload: when Schema is defined, tableName is restricted to table names
+  deleteFrom<T extends TableName<Schema>>(tableName: T): DeleteBuilder<Schema, GenericResultWrapper, Schema[T], IsAsync>
+  // Fallback overload: when Schema is empty or explicit result type is provided
+  deleteFrom<GenericResult = DefaultReturnObject>(
+    tableName: string
+  ): DeleteBuilder<{}, GenericResultWrapper, GenericResult, IsAsync>
+  deleteFrom<T extends string, GenericResult = DefaultReturnObject>(
+    tableName: T
+  ): DeleteBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync> {
+    return new DeleteBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync>(
+      {
+        tableName: tableName,
+        identifier: (column: string, tables?: Array<string>) => this._identifier(column, 'column', tables),
+      },
+      (params: Delete) => {
+        return this.delete(params as DeleteWithoutReturning) as Query<any, IsAsync>
+      }
+    )
+  }
+
   // Schema-aware overload: when Schema is defined
   fetchOne<T extends TableName<Schema>, F extends ColumnName<Schema, T> = ColumnName<Schema, T>>(
     params: TypedSelectOne<Schema, T, F>
@@ -184,7 +317,7 @@ export class QueryBuilder<
     // Ensure subQueryPlaceholders are passed to the count query as well, if they exist on params
     const selectParamsForCount: SelectAll = {
       ...params,
-      fields: 'count(*) as total',
+      fields: new Raw('count(*) as total'),
       offset: undefined,
       groupBy: undefined,
       limit: 1,
@@ -216,29 +349,20 @@ export class QueryBuilder<
     params: P
   ): QueryWithExtra<
     GenericResultWrapper,
-    ArrayResult<
-      GenericResultWrapper,
-      InferResult<Schema, T, F[] | undefined>,
-      IsAsync,
-      P extends { lazy: true } ? true : false
-    >,
+    ArrayResult<GenericResultWrapper, InferResult<Schema, T, F[] | undefined>, IsAsync, IsLazy<P>>,
     IsAsync
   >
   // Fallback overload: when Schema is empty or explicit result type is provided
   fetchAll<GenericResult = DefaultReturnObject, P extends SelectAll = SelectAll>(
     params: P
-  ): QueryWithExtra<
-    GenericResultWrapper,
-    ArrayResult<GenericResultWrapper, GenericResult, IsAsync, P extends { lazy: true } ? true : false>,
-    IsAsync
-  >
+  ): QueryWithExtra<GenericResultWrapper, ArrayResult<GenericResultWrapper, GenericResult, IsAsync, IsLazy<P>>, IsAsync>
   // Implementation signature - accepts any object with tableName
   fetchAll<GenericResult = DefaultReturnObject, P extends SelectAll = SelectAll>(
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     params: any
   ): QueryWithExtra<
     GenericResultWrapper,
-    ArrayResult<GenericResultWrapper, GenericResult, IsAsync, P extends { lazy: true } ? true : false>,
+    ArrayResult<GenericResultWrapper, GenericResult, IsAsync, IsLazy<P>>,
     IsAsync
   > {
     const queryArgs: any[] = []
@@ -249,7 +373,7 @@ export class QueryBuilder<
     // Ensure subQueryPlaceholders are passed to the count query as well
     const countQueryParams: SelectAll = {
       ...params,
-      fields: 'count(*) as total',
+      fields: new Raw('count(*) as total'),
       offset: undefined,
       groupBy: undefined,
       limit: 1,
@@ -264,10 +388,11 @@ export class QueryBuilder<
 
     return new QueryWithExtra(
       (q) => {
-        return (params as SelectAll).lazy
-          ? (this.lazyExecute(q) as unknown as MaybeAsync<
+        const lazy = (params as SelectAll).lazy
+        return lazy
+          ? (this.lazyExecute(q, typeof lazy === 'object' ? lazy : undefined) as unknown as MaybeAsync<
               IsAsync,
-              ArrayResult<GenericResultWrapper, any, IsAsync, P extends { lazy: true } ? true : false>
+              ArrayResult<GenericResultWrapper, any, IsAsync, IsLazy<P>>
             >)
           : this.execute(q)
       },
@@ -290,7 +415,7 @@ export class QueryBuilder<
       (q) => {
         return this.execute(q)
       },
-      params.query,
+      compilePlaceholders(params.query, this.dialect),
       params.args,
       params.fetchType
     )
@@ -312,19 +437,9 @@ export class QueryBuilder<
     let args: any[] = []
 
     if (typeof params.onConflict === 'object') {
-      if (
-        typeof params.onConflict?.where === 'object' &&
-        !Array.isArray(params.onConflict?.where) &&
-        params.onConflict?.where?.params != null
-      ) {
-        // 1 - on conflict where parameters
-        args = args.concat(params.onConflict.where?.params)
-      }
-
-      if (params.onConflict.data) {
-        // 2 - on conflict data parameters
-        args = args.concat(this._parse_arguments(params.onConflict.data))
-      }
+      // 1 - on conflict where parameters, 2 - on conflict data parameters
+      const conflictUpdate = this._withTables([params.tableName], () => this._onConflictUpdate(params.onConflict))
+      args = args.concat(conflictUpdate.arguments ?? [])
     }
 
     // 3 - insert data parameters
@@ -358,22 +473,16 @@ export class QueryBuilder<
   // Implementation signature - accepts any object with tableName
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   update<GenericResult = DefaultReturnObject>(params: any): Query<any, IsAsync> {
-    let args = this._parse_arguments(params.data)
-
-    if (typeof params.where === 'object' && !Array.isArray(params.where) && params.where?.params != null) {
-      if (Array.isArray(params.where?.params)) {
-        args = params.where?.params.concat(args)
-      } else {
-        args = [params.where?.params].concat(args)
-      }
-    }
+    // Where parameters (including those of subqueries) are collected while compiling the query
+    const whereArgs: any[] = []
+    const query = this._update(params, whereArgs)
 
     return new Query<any, IsAsync>(
       (q) => {
         return this.execute(q)
       },
-      this._update(params),
-      args,
+      query,
+      whereArgs.concat(this._parse_arguments(params.data)),
       FetchTypes.ALL
     )
   }
@@ -388,16 +497,16 @@ export class QueryBuilder<
   // Implementation signature - accepts any object with tableName
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   delete<GenericResult = DefaultReturnObject>(params: any): Query<any, IsAsync> {
+    // Where parameters (including those of subqueries) are collected while compiling the query
+    const whereArgs: any[] = []
+    const query = this._delete(params, whereArgs)
+
     return new Query<any, IsAsync>(
       (q) => {
         return this.execute(q)
       },
-      this._delete(params),
-      typeof params.where === 'object' && !Array.isArray(params.where) && params.where?.params != null
-        ? Array.isArray(params.where?.params)
-          ? params.where?.params
-          : [params.where?.params]
-        : undefined,
+      query,
+      whereArgs.length > 0 ? whereArgs : undefined,
       FetchTypes.ALL
     )
   }
@@ -410,28 +519,44 @@ export class QueryBuilder<
     })
   }
 
-  protected _onConflict(resolution?: string | ConflictTypes | ConflictUpsert): string {
-    if (resolution) {
-      if (typeof resolution === 'object') {
-        if (!Array.isArray(resolution.column)) {
-          resolution.column = [resolution.column]
-        }
+  protected _onConflictUpdate(resolution: ConflictUpsert): Query<any, IsAsync> {
+    return this.update({
+      tableName: '_REPLACE_',
+      data: resolution.data,
+      where: resolution.where,
+    })
+  }
 
-        const _update_query = this.update({
-          tableName: '_REPLACE_',
-          data: resolution.data,
-          where: resolution.where,
-        }).query.replace(' _REPLACE_', '') // Replace here is to lint the query
+  protected _onConflict(
+    statement: 'INSERT' | 'UPDATE',
+    resolution?: string | ConflictTypes | ConflictUpsert
+  ): { prefix: string; suffix: string } {
+    if (!resolution) return { prefix: '', suffix: '' }
 
-        return ` ON CONFLICT (${resolution.column.join(', ')}) DO ${_update_query}`
+    if (typeof resolution === 'object') {
+      if (!Array.isArray(resolution.column)) {
+        resolution.column = [resolution.column]
       }
 
-      return `OR ${resolution} `
+      const _update_query = this._onConflictUpdate(resolution).query.replace(
+        ` ${this._identifier('_REPLACE_', 'table')}`,
+        ''
+      ) // Replace here is to lint the query
+
+      return {
+        prefix: '',
+        suffix: ` ON CONFLICT (${resolution.column.map((column) => this._identifier(column)).join(', ')}) DO ${_update_query}`,
+      }
     }
-    return ''
+
+    return this.dialect.conflictResolution(statement, resolution)
   }
 
   protected _insert(params: Insert): string {
+    return this._withTables([params.tableName], () => this._insertSQL(params))
+  }
+
+  protected _insertSQL(params: Insert): string {
     const rows = []
 
     let data: Array<DefaultObject>
@@ -445,31 +570,15 @@ export class QueryBuilder<
       throw new MissingDataError('INSERT', 'data')
     }
 
-    const columns = Object.keys(data[0]).join(', ')
+    const columns = Object.keys(data[0])
+      .map((column) => this._identifier(column))
+      .join(', ')
     let index = 1
 
-    let orConflict = ''
-    let onConflict = ''
+    const conflict = this._onConflict('INSERT', params.onConflict)
     if (params.onConflict && typeof params.onConflict === 'object') {
-      onConflict = this._onConflict(params.onConflict)
-
-      if (
-        typeof params.onConflict?.where === 'object' &&
-        !Array.isArray(params.onConflict?.where) &&
-        params.onConflict?.where?.params != null
-      ) {
-        if (Array.isArray(params.onConflict.where?.params)) {
-          index += (params.onConflict.where?.params).length
-        } else {
-          index += 1
-        }
-      }
-
-      if (params.onConflict.data) {
-        index += this._parse_arguments(params.onConflict.data).length
-      }
-    } else {
-      orConflict = this._onConflict(params.onConflict)
+      // Insert placeholders are numbered after the on conflict where and data parameters
+      index += this._onConflictUpdate(params.onConflict).arguments?.length ?? 0
     }
 
     for (const row of data) {
@@ -479,7 +588,7 @@ export class QueryBuilder<
           // Raw parameters should not increase the index, as they are not a real parameter
           values.push(value.content)
         } else {
-          values.push(`?${index}`)
+          values.push(this.dialect.placeholder(index))
           index += 1
         }
       })
@@ -488,22 +597,27 @@ export class QueryBuilder<
     }
 
     return (
-      `INSERT ${orConflict} INTO ${params.tableName} (${columns})` +
+      `INSERT ${conflict.prefix} INTO ${this._identifier(params.tableName, 'table')} (${columns})` +
       ` VALUES ${rows.join(', ')}` +
-      onConflict +
+      conflict.suffix +
       this._returning(params.returning)
     )
   }
 
-  protected _update(params: Update): string {
-    const whereParamsLength: number =
-      typeof params.where === 'object' && !Array.isArray(params.where) && params.where?.params != null
-        ? Array.isArray(params.where?.params)
-          ? Object.keys(params.where?.params).length
-          : 1
-        : 0
+  protected _update(params: Update, queryArgs: any[] = []): string {
+    // Upserts compile their update against a placeholder table, its columns are those of the inserted table
+    if (params.tableName === '_REPLACE_' && this._tables) return this._updateSQL(params, queryArgs)
+    return this._withTables([params.tableName], () => this._updateSQL(params, queryArgs))
+  }
 
-    let whereString = this._where(params.where)
+  protected _updateSQL(params: Update, queryArgs: any[]): string {
+    let whereString = this._where(params.where, {
+      subQueryPlaceholders: params.subQueryPlaceholders,
+      queryArgs: queryArgs,
+      toSQLCompiler: this._select.bind(this),
+      statement: 'UPDATE',
+    })
+    const whereParamsLength = queryArgs.length
 
     let parameterIndex = 1
     if (whereString && whereString.match(/(?<!\d)\?(?!\d)/)) {
@@ -516,26 +630,38 @@ export class QueryBuilder<
     for (const [key, value] of Object.entries(params.data)) {
       if (value instanceof Raw) {
         // Raw parameters should not increase the index, as they are not a real parameter
-        set.push(`${key} = ${value.content}`)
+        set.push(`${this._identifier(key)} = ${value.content}`)
       } else {
-        set.push(`${key} = ?${whereParamsLength + index}`)
+        set.push(`${this._identifier(key)} = ${this.dialect.placeholder(whereParamsLength + index)}`)
         index += 1
       }
     }
 
+    const conflict = this._onConflict('UPDATE', params.onConflict)
+
     return (
-      `UPDATE ${this._onConflict(params.onConflict)}${params.tableName}
+      `UPDATE ${conflict.prefix}${this._identifier(params.tableName, 'table')}
        SET ${set.join(', ')}` +
       whereString +
+      conflict.suffix +
       this._returning(params.returning)
     )
   }
 
-  protected _delete(params: Delete): string {
+  protected _delete(params: Delete, queryArgs: any[] = []): string {
+    return this._withTables([params.tableName], () => this._deleteSQL(params, queryArgs))
+  }
+
+  protected _deleteSQL(params: Delete, queryArgs: any[]): string {
     return (
       `DELETE
-            FROM ${params.tableName}` +
-      this._where(params.where) +
+            FROM ${this._identifier(params.tableName, 'table')}` +
+      this._where(params.where, {
+        subQueryPlaceholders: params.subQueryPlaceholders,
+        queryArgs: queryArgs,
+        toSQLCompiler: this._select.bind(this),
+        statement: 'DELETE',
+      }) +
       this._orderBy(params.orderBy) +
       this._limit(params.limit) +
       this._offset(params.offset) +
@@ -544,6 +670,10 @@ export class QueryBuilder<
   }
 
   protected _select(params: SelectAll, queryArgs?: any[]): string {
+    return this._withTables(queryTables(params.tableName, params.join), () => this._selectSQL(params, queryArgs))
+  }
+
+  protected _selectSQL(params: SelectAll, queryArgs?: any[]): string {
     let newQueryArgs = queryArgs
     const isTopLevelCall = queryArgs === undefined
     if (isTopLevelCall) {
@@ -574,7 +704,7 @@ export class QueryBuilder<
     let sql =
       cteClause +
       `SELECT ${this._distinct(params.distinct)}${this._fields(params.fields)}
-       FROM ${params.tableName}` +
+       FROM ${this._identifier(params.tableName, 'table')}` +
       this._join(params.join, context) +
       this._where(params.where, context) +
       this._groupBy(params.groupBy) +
@@ -598,26 +728,143 @@ export class QueryBuilder<
     if (!value) return ''
     if (value === true) return 'DISTINCT '
     // DISTINCT ON (columns) - PostgreSQL only
-    return `DISTINCT ON (${value.join(', ')}) `
+    return `DISTINCT ON (${value.map((column) => this._identifier(column)).join(', ')}) `
   }
 
-  protected _fields(value?: string | Array<string>): string {
+  protected _fields(value?: string | Raw | Array<string | Raw>): string {
     if (!value) return '*'
-    if (typeof value === 'string') return value
+    if (value instanceof Raw) return value.content
+    if (typeof value === 'string') return this._identifierList(value)
+
+    return value.map((field) => (field instanceof Raw ? field.content : this._identifier(field))).join(', ')
+  }
+
+  /**
+   * Place a table or column name in the query.
+   * With the strictIdentifiers option, names are validated first, throwing an InvalidConfigurationError for anything
+   * that is not a plain identifier or is missing from the allowlist. With the quoteIdentifiers option they are quoted
+   * with the dialect. Aliases (`users u`, `u.name AS author`) are supported, while expressions like `count(*)` are
+   * left untouched, or rejected in strict mode. Columns are checked against the allowlist entries of `tables`, the
+   * tables of the query being compiled by default.
+   */
+  protected _identifier(
+    value: string,
+    kind: 'table' | 'column' | 'alias' = 'column',
+    tables: Array<string> | null = this._tables
+  ): string {
+    const identifier = value.trim()
+    const aliased = IDENTIFIER_REGEX.test(identifier) ? null : identifier.match(ALIASED_IDENTIFIER_REGEX)
+    const isAliased =
+      !!aliased &&
+      IDENTIFIER_REGEX.test(aliased[1]!) &&
+      !LEADING_KEYWORD_REGEX.test(aliased[1]!) &&
+      !ORDERED_IDENTIFIER_REGEX.test(identifier)
+
+    if (this.options.strictIdentifiers) {
+      this._validateIdentifier(isAliased ? aliased![1]! : identifier, kind, tables)
+    }
 
-    return value.join(', ')
+    if (!this.options.quoteIdentifiers) return value
+    if (isAliased) {
+      return `${this.dialect.quoteIdentifier(aliased![1]!)}${aliased![2]}${this.dialect.quoteIdentifier(aliased![3]!)}`
+    }
+    if (IDENTIFIER_REGEX.test(identifier)) return this.dialect.quoteIdentifier(identifier)
+
+    return value
+  }
+
+  /**
+   * Place a comma separated list of identifiers in the query, each optionally followed by a sort direction.
+   * Without strictIdentifiers, lists with function calls are left untouched, as their commas can't be told apart
+   * from the list separators.
+   */
+  protected _identifierList(value: string): string {
+    if (!this.options.strictIdentifiers && (!this.options.quoteIdentifiers || value.includes('('))) return value
+
+    return value
+      .split(',')
+      .map((item) => {
+        const ordered = item.trim().match(ORDERED_IDENTIFIER_REGEX)
+        if (ordered) return `${this._identifier(ordered[1]!)}${ordered[2]}`
+        return this._identifier(item.trim())
+      })
+      .join(', ')
+  }
+
+  protected _validateIdentifier(
+    identifier: string,
+    kind: 'table' | 'column' | 'alias',
+    tables: Array<string> | null = null
+  ): void {
+    // Upserts are compiled as an update of this placeholder table
+    if (identifier === '_REPLACE_' && kind === 'table') return
+    if (identifier === '*' && kind === 'column') return
+
+    if (!IDENTIFIER_REGEX.test(identifier) || (kind !== 'column' && identifier.endsWith('*'))) {
+      throw new InvalidConfigurationError(
+        `Invalid ${kind} name: ${identifier}`,
+        'Identifiers may only contain letters, digits, _ and $, optionally qualified (table.column) or aliased (column AS alias). Use new Raw() for expressions'
+      )
+    }
+
+    const allowlist = this.options.strictIdentifiers
+    if (typeof allowlist !== 'object' || kind === 'alias') return
+
+    if (kind === 'table') {
+      const table = identifier.split('.').pop()!
+      if (!Object.hasOwn(allowlist, identifier) && !Object.hasOwn(allowlist, table)) {
+        throw new InvalidConfigurationError(
+          `Unknown table: ${identifier}`,
+          `Allowed tables: ${Object.keys(allowlist).join(', ')}`
+        )
+      }
+      return
+    }
+
+    const column = identifier.split('.').pop()!
+    if (column === '*') return
+    // Without the tables of a query, like columns compiled on their own, any allowlisted table may have the column
+    const entry = (table: string) => (Object.hasOwn(allowlist, table) ? allowlist[table] : undefined)
+    const allowed = tables
+      ? tables.map((table) => entry(table) ?? entry(table.split('.').pop()!) ?? [])
+      : Object.values(allowlist)
+    if (!allowed.some((columns) => columns.includes(column))) {
+      throw new InvalidConfigurationError(
+        `Unknown column: ${identifier}`,
+        tables
+          ? `Add the column to the strictIdentifiers allowlist of ${tables.join(', ')}, or check the name for typos`
+          : 'Add the column to the strictIdentifiers allowlist, or check the name for typos'
+      )
+    }
+  }
+
+  protected _withTables<T>(tables: Array<string>, compile: () => T): T {
+    const previous = this._tables
+    this._tables = tables
+    try {
+      return compile()
+    } finally {
+      this._tables = previous
+    }
   }
 
   protected _where(
-    value: Where | undefined,
+    where: Where | undefined,
     context?: {
       subQueryPlaceholders?: Record<string, SelectAll>
       queryArgs: any[]
       // Allow toSQLCompiler to be undefined for calls not originating from _select, though practically it should always be provided.
       toSQLCompiler?: (params: SelectAll, queryArgs: any[]) => string
+      // Set by _update and _delete, where undefined object-style values throw instead of dropping their condition
+      statement?: 'UPDATE' | 'DELETE'
     }
   ): string {
-    if (!value) return ''
+    if (!where) return ''
+
+    // Object-style conditions are compiled to the { conditions, params } form
+    const value = isWhereObject(where)
+      ? compileWhereObject(where, (column) => this._identifier(column), context?.statement)
+      : where
 
     // Ensure context is initialized for standalone _where calls (e.g., in _delete, _update)
     const currentContext = context ?? { queryArgs: [] }
@@ -627,7 +874,14 @@ export class QueryBuilder<
 
     if (typeof value === 'object' && !Array.isArray(value)) {
       conditionStrings = Array.isArray(value.conditions) ? value.conditions : [value.conditions]
-      if (value.params != null) {
+      if (isNamedParams(value.params)) {
+        // Named parameters are compiled to bare ? placeholders, handled like positional params below
+        ;({ conditions: conditionStrings, params: primitiveParams } = compileNamedParams(
+          'WHERE',
+          conditionStrings,
+          value.params
+        ))
+      } else if (value.params != null) {
         primitiveParams = Array.isArray(value.params) ? value.params : [value.params]
       }
     } else if (Array.isArray(value)) {
@@ -665,7 +919,7 @@ export class QueryBuilder<
             })
           }
           currentContext.queryArgs.push(primitiveParams[primitiveParamIndex++])
-          builtCondition += '?'
+          builtCondition += this.dialect.placeholder(currentContext.queryArgs.length, true)
         } else if (/^\?\d+$/.test(part)) {
           // Numbered param like ?1, ?2 - only consume on first occurrence
           const paramNum = part.slice(1)
@@ -681,7 +935,7 @@ export class QueryBuilder<
             }
             currentContext.queryArgs.push(primitiveParams[primitiveParamIndex++])
           }
-          builtCondition += part // Preserve the ?N in output
+          builtCondition += this.dialect.placeholder(Number.parseInt(paramNum, 10)) // Keep the number of ?N
         } else if (part.startsWith('__SUBQUERY_TOKEN_') && part.endsWith('__')) {
           if (!currentContext.subQueryPlaceholders || !currentContext.toSQLCompiler) {
             throw new MissingSubqueryContextError()
@@ -742,7 +996,7 @@ export class QueryBuilder<
       const type = item.type ? `${item.type} ` : ''
       let tableSql: string
       if (typeof item.table === 'string') {
-        tableSql = item.table
+        tableSql = this._identifier(item.table, 'table')
       } else if (item.table instanceof SelectBuilder) {
         tableSql = `(${context.toSQLCompiler(item.table.getOptions(), context.queryArgs)})`
       } else {
@@ -751,33 +1005,38 @@ export class QueryBuilder<
         // and push its arguments to context.queryArgs.
         tableSql = `(${context.toSQLCompiler(item.table, context.queryArgs)})`
       }
+      const alias = item.alias ? ` AS ${this._identifier(item.alias, 'alias')}` : ''
       // NATURAL joins and joins with an empty ON clause don't include an ON clause
       if (item.type === JoinTypes.NATURAL || item.type === 'NATURAL' || !item.on) {
-        joinQuery.push(`${type}JOIN ${tableSql}${item.alias ? ` AS ${item.alias}` : ''}`)
+        joinQuery.push(`${type}JOIN ${tableSql}${alias}`)
       } else {
-        joinQuery.push(`${type}JOIN ${tableSql}${item.alias ? ` AS ${item.alias}` : ''} ON ${item.on}`)
+        joinQuery.push(`${type}JOIN ${tableSql}${alias} ON ${item.on}`)
       }
     })
 
     return ' ' + joinQuery.join(' ')
   }
 
-  protected _groupBy(value?: string | Array<string>): string {
+  protected _groupBy(value?: string | Raw | Array<string | Raw>): string {
     if (!value) return ''
-    if (typeof value === 'string') return ` GROUP BY ${value}`
+    if (value instanceof Raw) return ` GROUP BY ${value.content}`
+    if (typeof value === 'string') return ` GROUP BY ${this._identifierList(value)}`
 
-    return ` GROUP BY ${value.join(', ')}`
+    return ` GROUP BY ${value.map((column) => (column instanceof Raw ? column.content : this._identifier(column))).join(', ')}`
   }
 
   protected _having(
-    value: Where | undefined, // Using Where type as Having structure is similar for conditions/params
+    where: Where | undefined, // Using Where type as Having structure is similar for conditions/params
     context: {
       subQueryPlaceholders?: Record<string, SelectAll>
       queryArgs: any[]
       toSQLCompiler?: (params: SelectAll, queryArgs: any[]) => string
     }
   ): string {
-    if (!value) return ''
+    if (!where) return ''
+
+    // Object-style conditions are compiled to the { conditions, params } form
+    const value = isWhereObject(where) ? compileWhereObject(where, (column) => this._identifier(column)) : where
 
     // Ensure context is initialized for standalone _where calls (e.g., in _delete, _update)
     const currentContext = context ?? { queryArgs: [] }
@@ -787,7 +1046,14 @@ export class QueryBuilder<
 
     if (typeof value === 'object' && !Array.isArray(value)) {
       conditionStrings = Array.isArray(value.conditions) ? value.conditions : [value.conditions]
-      if (value.params != null) {
+      if (isNamedParams(value.params)) {
+        // Named parameters are compiled to bare ? placeholders, handled like positional params below
+        ;({ conditions: conditionStrings, params: primitiveParams } = compileNamedParams(
+          'HAVING',
+          conditionStrings,
+          value.params
+        ))
+      } else if (value.params != null) {
         primitiveParams = Array.isArray(value.params) ? value.params : [value.params]
       }
     } else if (Array.isArray(value)) {
@@ -824,7 +1090,7 @@ export class QueryBuilder<
             })
           }
           currentContext.queryArgs.push(primitiveParams[primitiveParamIndex++])
-          builtCondition += '?'
+          builtCondition += this.dialect.placeholder(currentContext.queryArgs.length, true)
         } else if (/^\?\d+$/.test(part)) {
           // Numbered param like ?1, ?2 - only consume on first occurrence
           const paramNum = part.slice(1)
@@ -840,7 +1106,7 @@ export class QueryBuilder<
             }
             currentContext.queryArgs.push(primitiveParams[primitiveParamIndex++])
           }
-          builtCondition += part // Preserve the ?N in output
+          builtCondition += this.dialect.placeholder(Number.parseInt(paramNum, 10)) // Keep the number of ?N
         } else if (part.startsWith('__SUBQUERY_TOKEN_') && part.endsWith('__')) {
           if (!currentContext.subQueryPlaceholders || !currentContext.toSQLCompiler) {
             throw new MissingSubqueryContextError()
@@ -876,11 +1142,12 @@ export class QueryBuilder<
     return ` HAVING (${processedConditions.join(') AND (')})`
   }
 
-  protected _orderBy(value?: string | Array<string> | Record<string, string | OrderTypes>): string {
+  protected _orderBy(value?: string | Raw | Array<string | Raw> | Record<string, string | OrderTypes>): string {
     if (!value) return ''
-    if (typeof value === 'string') return ` ORDER BY ${value}`
+    if (value instanceof Raw) return ` ORDER BY ${value.content}`
+    if (typeof value === 'string') return ` ORDER BY ${this._identifierList(value)}`
 
-    const order: Array<Record<string, string> | string> = []
+    const order: Array<Record<string, string> | string | Raw> = []
     if (Array.isArray(value)) {
       for (const val of value) {
         order.push(val)
@@ -890,14 +1157,21 @@ export class QueryBuilder<
     }
 
     const result = order.map((obj) => {
+      if (obj instanceof Raw) return obj.content
       if (typeof obj === 'object') {
         const objs: Array<string> = []
         Object.entries(obj).forEach(([key, item]) => {
-          objs.push(`${key} ${item}`)
+          if (this.options.strictIdentifiers && !ORDER_DIRECTION_REGEX.test(item)) {
+            throw new InvalidConfigurationError(
+              `Invalid sort direction for ${key}: ${item}`,
+              'Use ASC or DESC, optionally followed by NULLS FIRST or NULLS LAST'
+            )
+          }
+          objs.push(`${this._identifier(key)} ${item}`)
         })
         return objs.join(', ')
       }
-      return obj
+      return this._identifierList(obj)
     })
 
     return ` ORDER BY ${result.join(', ')}`
@@ -917,8 +1191,14 @@ export class QueryBuilder<
 
   protected _returning(value?: string | Array<string>): string {
     if (!value) return ''
-    if (typeof value === 'string') return ` RETURNING ${value}`
+    if (!this.dialect.supportsReturning) {
+      throw new InvalidConfigurationError(
+        `The ${this.dialect.name} dialect does not support RETURNING`,
+        'Remove returning and select the rows in a separate query'
+      )
+    }
+    if (typeof value === 'string') return ` RETURNING ${this._identifierList(value)}`
 
-    return ` RETURNING ${value.join(', ')}`
+    return ` RETURNING ${value.map((column) => this._identifier(column)).join(', ')}`
   }
 }
@@ -1,9 +1,24 @@
 import { QueryBuilder } from '../builder'
 import { FetchTypes } from '../enums'
-import { D1Result, QueryBuilderOptions } from '../interfaces'
-import { asyncMigrationsBuilder, MigrationOptions } from '../migrations'
+import { InvalidConfigurationError, TransactionGuardError } from '../errors'
+import { D1LazyOptions, D1QueryBuilderOptions, D1Result } from '../interfaces'
+import {
+  AnyMigration,
+  ApplyOptions,
+  appliedChecksum,
+  asyncMigrationsBuilder,
+  D1MigrationOptions,
+  MigrationEntry,
+  MigrationPlan,
+} from '../migrations'
+import { SelectBuilder } from '../modularBuilder'
 import { TableSchema } from '../schema'
 import { Query } from '../tools'
+import { Merge } from '../typefest'
+
+// Guards fail by passing an invalid JSON path to json_extract(), SQLite then echoes the path in its error message
+const GUARD_PREFIX = 'workers-qb guard: '
+const GUARD_ERROR_REGEX = new RegExp(`bad JSON path: '${GUARD_PREFIX}(.*)'`, 's')
 
 interface D1Database {
   prepare: any
@@ -11,15 +26,151 @@ interface D1Database {
   exec: any
 }
 
+// Wrangler names migrations after their files, like 0001_create_users.sql
+const WRANGLER_MIGRATION_REGEX = /^(\d+)_.*\.sql$/
+// Migrations with an up() function have no file, they only need the number
+const WRANGLER_CODE_MIGRATION_REGEX = /^(\d+)_/
+
+/**
+ * Sort migrations by the number prefixing their name, as `wrangler d1 migrations apply` does.
+ */
+function sortWranglerMigrations(migrations: Array<AnyMigration>): Array<AnyMigration> {
+  const numbered = migrations.map((migration) => {
+    const match = ('up' in migration ? WRANGLER_CODE_MIGRATION_REGEX : WRANGLER_MIGRATION_REGEX).exec(migration.name)
+    if (!match) {
+      throw new InvalidConfigurationError(
+        `Migration ${migration.name} is not named like a Wrangler migration file`,
+        'Name migrations after their Wrangler file, like 0001_create_users.sql, so that they match the d1_migrations table'
+      )
+    }
+    return { migration, number: Number(match[1]) }
+  })
+
+  return numbered.sort((a, b) => a.number - b.number).map(({ migration }) => migration)
+}
+
+class D1MigrationsBuilder extends asyncMigrationsBuilder<D1Result> {
+  _wrangler: boolean
+
+  constructor(options: D1MigrationOptions, builder: QueryBuilder<any, D1Result, true>) {
+    super(
+      options.wrangler
+        ? {
+            ...options,
+            tableName: options.tableName || 'd1_migrations',
+            migrations: sortWranglerMigrations(options.migrations),
+          }
+        : options,
+      builder
+    )
+    this._wrangler = options.wrangler ?? false
+  }
+
+  async initialize(): Promise<void> {
+    if (!this._wrangler) return super.initialize()
+
+    // Same table as Wrangler, without the checksum and duration columns it would not fill
+    await this._builder
+      .createTable({
+        tableName: this._tableName,
+        schema: `id         INTEGER PRIMARY KEY AUTOINCREMENT,
+               name       TEXT UNIQUE,
+               applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL`,
+        ifNotExists: true,
+      })
+      .execute()
+  }
+
+  async _fetchApplied(): Promise<Array<MigrationEntry>> {
+    const applied = await super._fetchApplied()
+    // Wrangler records no checksums and durations, so migrations are never reported as modified
+    return this._wrangler ? applied.map((entry) => ({ ...entry, checksum: null, duration_ms: null })) : applied
+  }
+
+  /**
+   * List the applied migrations without initialize(), which creates and alters the migrations table.
+   * Returns no migrations when the table does not exist yet.
+   */
+  async _readApplied(): Promise<Array<MigrationEntry>> {
+    return (await this.introspect(this._tableName)) ? this._fetchApplied() : []
+  }
+
+  /**
+   * Apply each pending migration as one D1 batch, made of its statements and the insert recording it.
+   * Batches are atomic, so a failing statement leaves neither schema changes nor a record behind.
+   * With `dryRun`, the statements are returned without being executed.
+   */
+  async apply(options: ApplyOptions & { dryRun: true }): Promise<Array<MigrationPlan>>
+  async apply(options?: ApplyOptions): Promise<Array<AnyMigration>>
+  async apply(options?: ApplyOptions): Promise<Array<AnyMigration | MigrationPlan>> {
+    // Dry runs write nothing, neither the lock nor the migrations table
+    if (options?.dryRun) return this._applyPending(true)
+    return this._withLock((renew) => this._applyPending(false, renew))
+  }
+
+  async _applyPending(
+    dryRun: boolean,
+    renew: () => Promise<void> = async () => {}
+  ): Promise<Array<AnyMigration | MigrationPlan>> {
+    const applied = dryRun ? await this._readApplied() : await this.getApplied()
+    await this._checkDrift(applied)
+    const appliedNames = applied.map((migration) => migration.name)
+    const appliedMigrations: Array<AnyMigration | MigrationPlan> = []
+
+    for (const migration of this._migrations.filter((migration) => !appliedNames.includes(migration.name))) {
+      // Queries of up() functions only run when applying, so they are not part of the batch
+      const queries = [
+        ...('up' in migration ? [] : this._builder._scriptQueries(migration.sql)),
+        this._wrangler
+          ? this._builder.raw({
+              query: `INSERT INTO ${this._tableName} (name)
+              values (?)`,
+              args: [migration.name],
+            })
+          : this._builder.raw({
+              query: `INSERT INTO ${this._tableName} (name, checksum)
+              values (?, ?)`,
+              args: [migration.name, appliedChecksum(migration)],
+            }),
+      ]
+
+      if (dryRun) {
+        appliedMigrations.push({ ...migration, statements: queries.map((query) => query.toSQL()) })
+        continue
+      }
+
+      await renew()
+      const start = Date.now()
+      if ('up' in migration) await migration.up(this._builder)
+      await this._builder.batchExecute(queries)
+      if (!this._wrangler) {
+        // The duration is only known once the batch ran, so it is recorded after it
+        await this._builder
+          .raw({
+            query: `UPDATE ${this._tableName} SET duration_ms = ? WHERE name = ?`,
+            args: [Date.now() - start, migration.name],
+          })
+          .execute()
+      }
+      appliedMigrations.push(migration)
+    }
+
+    return appliedMigrations
+  }
+}
+
 export class D1QB<Schema extends TableSchema = {}> extends QueryBuilder<Schema, D1Result, true> {
   public db: any
-  constructor(db: D1Database, options?: QueryBuilderOptions) {
+  protected _lazyBatchSize: number
+
+  constructor(db: D1Database, options?: D1QueryBuilderOptions) {
     super(options)
     this.db = db
+    this._lazyBatchSize = options?.lazyBatchSize ?? 1000
   }
 
-  migrations(options: MigrationOptions) {
-    return new asyncMigrationsBuilder<D1Result>(options, this)
+  migrations(options: D1MigrationOptions) {
+    return new D1MigrationsBuilder(options, this)
   }
 
   async execute(query: Query) {
@@ -70,6 +221,97 @@ export class D1QB<Schema extends TableSchema = {}> extends QueryBuilder<Schema,
     return result
   }
 
+  /**
+   * Execute a SELECT lazily, D1 has no cursors so the result set is fetched one page at a time while iterating.
+   * Pages use LIMIT/OFFSET by default, pass a `keyset` column to page with `WHERE <column> > ?` instead, which keeps
+   * every page an index lookup on large tables but returns rows ordered by that column.
+   * Used by `fetchAll({ lazy })` and `select().execute({ lazy })`, which pass the options given as `lazy`.
+   *
+   * @example
+   * const users = await qb.lazyExecute(qb.select('users').where('active = ?', 1).getQueryAll(), { keyset: 'id' })
+   * for await (const user of users) {
+   *   await exportUser(user)
+   * }
+   */
+  async lazyExecute(
+    query: Query<any, true>,
+    options?: D1LazyOptions
+  ): Promise<Merge<D1Result, { results: AsyncIterable<any> }> & AsyncIterable<any>> {
+    const result = {
+      success: true,
+      duration: 0,
+      served_by: '',
+      rowsRead: 0, // Counts the rows read so far
+      results: undefined as unknown as AsyncIterable<any>,
+      [Symbol.asyncIterator]() {
+        return result.results[Symbol.asyncIterator]()
+      },
+    }
+    result.results = this._paginate(query, options?.batchSize ?? this._lazyBatchSize, options?.keyset, (page) => {
+      result.duration += page.duration ?? 0
+      result.served_by = page.served_by ?? result.served_by
+      result.rowsRead += page.rowsRead ?? 0
+    })
+
+    return result
+  }
+
+  protected async *_paginate(
+    query: Query<any, true>,
+    batchSize: number,
+    keyset: string | undefined,
+    onPage: (page: D1Result) => void
+  ): AsyncGenerator<any> {
+    const args = query.arguments ?? []
+    const keysetColumn = keyset === undefined ? undefined : this._identifier(keyset)
+    let offset = 0
+    let lastKey: any
+
+    while (true) {
+      let page: Query<any, true>
+      if (keyset === undefined) {
+        page = new Query(
+          (q) => this.execute(q),
+          `SELECT * FROM (${query.query}) LIMIT ? OFFSET ?`,
+          [...args, batchSize, offset],
+          FetchTypes.ALL
+        )
+      } else if (lastKey === undefined) {
+        page = new Query(
+          (q) => this.execute(q),
+          `SELECT * FROM (${query.query}) ORDER BY ${keysetColumn} LIMIT ?`,
+          [...args, batchSize],
+          FetchTypes.ALL
+        )
+      } else {
+        page = new Query(
+          (q) => this.execute(q),
+          `SELECT * FROM (${query.query}) WHERE ${keysetColumn} > ? ORDER BY ${keysetColumn} LIMIT ?`,
+          [...args, lastKey, batchSize],
+          FetchTypes.ALL
+        )
+      }
+
+      const response = await page.execute()
+      onPage(response)
+
+      const rows: Array<any> = response.results ?? []
+      yield* rows
+
+      if (rows.length < batchSize) return
+      offset += rows.length
+      if (keyset !== undefined) {
+        lastKey = rows[rows.length - 1][keyset]
+        if (lastKey === undefined || lastKey === null) {
+          throw new InvalidConfigurationError(
+            `Keyset column ${keyset} is missing or null in the lazy results`,
+            'Select the keyset column and use a unique, not null column such as the primary key'
+          )
+        }
+      }
+    }
+  }
+
   private _getQueryType(sql: string): 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE' | 'RAW' {
     const trimmed = sql.trim().toUpperCase()
     if (trimmed.startsWith('SELECT') || trimmed.startsWith('WITH')) return 'SELECT'
@@ -89,7 +331,16 @@ export class D1QB<Schema extends TableSchema = {}> extends QueryBuilder<Schema,
         return stmt
       })
 
-      const responses = await this.db.batch(statements)
+      let responses
+      try {
+        responses = await this.db.batch(statements)
+      } catch (error) {
+        const guardFailure = error instanceof Error ? error.message.match(GUARD_ERROR_REGEX) : null
+        if (guardFailure) {
+          throw new TransactionGuardError(guardFailure[1]!)
+        }
+        throw error
+      }
 
       return responses.map(
         (
@@ -138,6 +389,8 @@ export class D1QB<Schema extends TableSchema = {}> extends QueryBuilder<Schema,
   /**
    * Execute multiple queries atomically as a transaction.
    * D1 uses batching for transactions - all queries succeed or all fail together.
+   * Since queries can't be read and branched on inside a batch, use `guard()` and `guardChanges()` to add conditions
+   * that abort the whole transaction with a `TransactionGuardError` when they fail.
    *
    * @param callback - A function that receives a transaction builder and returns queries to execute
    * @returns Array of results from all queries in the transaction
@@ -149,9 +402,81 @@ export class D1QB<Schema extends TableSchema = {}> extends QueryBuilder<Schema,
    *     tx.update({ tableName: 'users', data: { balance: 50 }, where: { conditions: 'id = ?', params: [1] } }),
    *   ]
    * })
+   *
+   * @example
+   * // Optimistic concurrency: abort when the row was modified since it was read
+   * await qb.transaction(async (tx) => [
+   *   tx.update({ tableName: 'documents', data: { body, version: version + 1 }, where: { id, version } }),
+   *   tx.guardChanges(1, 'document was modified concurrently'),
+   *   tx.insert({ tableName: 'document_history', data: { document_id: id, version: version + 1 } }),
+   * ])
    */
   async transaction<T extends Query<any, true>[]>(callback: (tx: D1QB<Schema>) => T | Promise<T>): Promise<any[]> {
     const queries = await callback(this)
     return this.batchExecute(queries)
   }
+
+  /**
+   * Run an SQL script as one atomic batch, after splitting it into statements with `splitStatements()`.
+   * D1 only runs the first statement of a prepared query reliably, so scripts cannot be sent through `raw()`.
+   *
+   * @param script - The SQL script, statements separated by semicolons
+   * @returns Array of results, one per statement
+   *
+   * @example
+   * await qb.exec(`
+   *   CREATE TABLE logs (id INTEGER PRIMARY KEY, message TEXT);
+   *   CREATE TRIGGER users_log AFTER INSERT ON users BEGIN
+   *     INSERT INTO logs (message) VALUES ('user created; ' || NEW.name);
+   *   END;
+   * `)
+   */
+  async exec(script: string): Promise<Array<D1Result>> {
+    const queries = this._scriptQueries(script)
+    return queries.length > 0 ? this.batchExecute(queries) : []
+  }
+
+  /**
+   * Build a guard query that aborts the batch or transaction it is part of when the given SELECT returns no rows.
+   *
+   * @param query - The SELECT query to check, as a `Query` or a `SelectBuilder`
+   * @param message - Message reported by the `TransactionGuardError`
+   *
+   * @example
+   * await qb.transaction(async (tx) => [
+   *   tx.guard(tx.select('accounts').where('id = ? AND balance >= ?', [1, 100]), 'insufficient balance'),
+   *   tx.update({ tableName: 'accounts', data: { balance: new Raw('balance - 100') }, where: { id: 1 } }),
+   * ])
+   */
+  guard(
+    query: Query<any, true> | SelectBuilder<any, any, any, true>,
+    message = 'guard query returned no rows'
+  ): Query<D1Result, true> {
+    const guardedQuery = query instanceof SelectBuilder ? query.getQueryAll() : query
+
+    return new Query(
+      (q) => {
+        return this.execute(q)
+      },
+      `SELECT CASE WHEN EXISTS (${guardedQuery.query}) THEN 1 ELSE json_extract('{}', ?) END AS guard`,
+      [...(guardedQuery.arguments ?? []), `${GUARD_PREFIX}${message}`]
+    )
+  }
+
+  /**
+   * Build a guard query that aborts the batch or transaction it is part of when the previous INSERT, UPDATE or
+   * DELETE changed fewer than `minChanges` rows.
+   *
+   * @param minChanges - Minimum number of rows the previous write must have changed
+   * @param message - Message reported by the `TransactionGuardError`
+   */
+  guardChanges(minChanges = 1, message = `expected at least ${minChanges} changed row(s)`): Query<D1Result, true> {
+    return new Query(
+      (q) => {
+        return this.execute(q)
+      },
+      "SELECT CASE WHEN changes() >= ? THEN 1 ELSE json_extract('{}', ?) END AS guard",
+      [minChanges, `${GUARD_PREFIX}${message}`]
+    )
+  }
 }
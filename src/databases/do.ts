@@ -1,8 +1,9 @@
 import { QueryBuilder } from '../builder'
 import { FetchTypes } from '../enums'
-import { DOResult, QueryBuilderOptions } from '../interfaces'
+import { InvalidConfigurationError } from '../errors'
+import { DOQueryBuilderOptions, DOResult } from '../interfaces'
 import { syncLoggerWrapper } from '../logger'
-import { MigrationOptions, syncMigrationsBuilder } from '../migrations'
+import { AnyMigration, DOMigrationOptions, RollbackOptions, syncMigrationsBuilder } from '../migrations'
 import { TableSchema } from '../schema'
 import { Query } from '../tools'
 
@@ -13,17 +14,76 @@ interface SqlStorage {
   Statement: any
 }
 
+class DOMigrationsBuilder extends syncMigrationsBuilder<DOResult> {
+  _db: DOQB<any>
+  // Undefined when the transaction option is not set
+  _transaction?: 'each' | 'all'
+
+  constructor(options: DOMigrationOptions, builder: DOQB<any>) {
+    super(options, builder)
+    this._db = builder
+    this._transaction = options.transaction
+  }
+
+  /**
+   * Apply the pending migrations, each in its own transaction or all of them in one.
+   * Migrations only run in transactions when the query builder was given the storage of the Durable Object: without
+   * it, they run statement by statement and a failing migration leaves its previous statements applied. Setting the
+   * transaction option without the storage throws an InvalidConfigurationError.
+   */
+  apply(): Array<AnyMigration> {
+    this._checkStorage()
+    if (this._transaction === 'all') return this._db.transaction(() => super.apply())
+
+    return super.apply()
+  }
+
+  _applyMigration(migration: AnyMigration): void {
+    if (!this._db.storage || this._transaction === 'all') return super._applyMigration(migration)
+    this._db.transaction(() => super._applyMigration(migration))
+  }
+
+  rollback(options?: RollbackOptions): Array<AnyMigration> {
+    this._checkStorage()
+    return super.rollback(options)
+  }
+
+  rollbackTo(name: string): Array<AnyMigration> {
+    this._checkStorage()
+    return super.rollbackTo(name)
+  }
+
+  _revertMigration(migration: AnyMigration & { down: string }): void {
+    if (!this._db.storage) return super._revertMigration(migration)
+    this._db.transaction(() => super._revertMigration(migration))
+  }
+
+  // Durable Objects reject BEGIN TRANSACTION, so the transactions asked for can only run through the storage
+  _checkStorage(): void {
+    if (!this._transaction || this._db.storage) return
+    throw new InvalidConfigurationError(
+      this._transaction === 'all'
+        ? 'Applying all migrations in one transaction needs the storage of the Durable Object'
+        : 'Applying each migration in its own transaction needs the storage of the Durable Object',
+      'Create the query builder with new DOQB(ctx.storage.sql, { storage: ctx.storage }), or remove the transaction option'
+    )
+  }
+}
+
 export class DOQB<Schema extends TableSchema = {}> extends QueryBuilder<Schema, DOResult, false> {
   public db: SqlStorage
+  public storage?: DOQueryBuilderOptions['storage']
   loggerWrapper = syncLoggerWrapper
+  protected _transactionDepth = 0
 
-  constructor(db: SqlStorage, options?: QueryBuilderOptions<false>) {
+  constructor(db: SqlStorage, options?: DOQueryBuilderOptions) {
     super(options)
     this.db = db
+    this.storage = options?.storage
   }
 
-  migrations(options: MigrationOptions) {
-    return new syncMigrationsBuilder<DOResult>(options, this)
+  migrations(options: DOMigrationOptions) {
+    return new DOMigrationsBuilder(options, this)
   }
 
   execute(query: Query<any, false>) {
@@ -97,23 +157,63 @@ export class DOQB<Schema extends TableSchema = {}> extends QueryBuilder<Schema,
 
   /**
    * Execute multiple queries atomically as a transaction.
-   * Uses SQLite's BEGIN/COMMIT/ROLLBACK for atomicity.
+   * Runs through storage.transactionSync() when the query builder was given the storage of the Durable Object,
+   * otherwise uses SQLite's BEGIN/COMMIT/ROLLBACK, which Durable Objects reject.
+   * Calling `transaction()` again from inside the callback creates a nested transaction (a nested transactionSync() or
+   * a SAVEPOINT): when the nested callback throws, only its changes are rolled back and the error is rethrown to the
+   * outer callback.
    * Note: This should be called within blockConcurrencyWhile for proper isolation in Durable Objects.
    *
    * @param callback - A function that receives the query builder and executes queries
    * @returns The return value of the callback
    *
    * @example
-   * // Inside a Durable Object
+   * // Inside a Durable Object, with qb = new DOQB(this.ctx.storage.sql, { storage: this.ctx.storage })
    * this.ctx.blockConcurrencyWhile(() => {
    *   qb.transaction((tx) => {
    *     tx.insert({ tableName: 'orders', data: { user_id: 1, total: 100 } }).execute()
    *     tx.update({ tableName: 'users', data: { balance: 50 }, where: { conditions: 'id = ?', params: [1] } }).execute()
    *   })
    * })
+   *
+   * @example
+   * // Nested transaction, the outer transaction still commits the order
+   * qb.transaction((tx) => {
+   *   tx.insert({ tableName: 'orders', data: { user_id: 1, total: 100 } }).execute()
+   *   try {
+   *     tx.transaction((inner) => applyCoupon(inner))
+   *   } catch {
+   *     // Only the coupon changes were rolled back
+   *   }
+   * })
    */
   transaction<T>(callback: (tx: DOQB<Schema>) => T): T {
+    if (this.storage) {
+      // transactionSync() rolls back on exceptions, and nested calls only roll back their own changes
+      return this.storage.transactionSync(() => callback(this))
+    }
+
+    if (this._transactionDepth > 0) {
+      const savepoint = `sp_${this._transactionDepth}`
+      this.db.exec(`SAVEPOINT ${savepoint}`)
+      this._transactionDepth++
+
+      try {
+        const result = callback(this)
+        this.db.exec(`RELEASE SAVEPOINT ${savepoint}`)
+        return result
+      } catch (error) {
+        // ROLLBACK TO keeps the savepoint open in SQLite, so it is released afterwards
+        this.db.exec(`ROLLBACK TO SAVEPOINT ${savepoint}`)
+        this.db.exec(`RELEASE SAVEPOINT ${savepoint}`)
+        throw error
+      } finally {
+        this._transactionDepth--
+      }
+    }
+
     this.db.exec('BEGIN TRANSACTION')
+    this._transactionDepth = 1
     try {
       const result = callback(this)
       this.db.exec('COMMIT')
@@ -121,6 +221,19 @@ export class DOQB<Schema extends TableSchema = {}> extends QueryBuilder<Schema,
     } catch (error) {
       this.db.exec('ROLLBACK')
       throw error
+    } finally {
+      this._transactionDepth = 0
     }
   }
+
+  /**
+   * Run an SQL script in a transaction, after splitting it into statements with `splitStatements()`.
+   * Pass the storage of the Durable Object to the query builder, as the transaction runs through `transaction()`.
+   *
+   * @param script - The SQL script, statements separated by semicolons
+   * @returns Array of results, one per statement
+   */
+  exec(script: string): Array<DOResult> {
+    return this.transaction((tx) => tx._scriptQueries(script).map((query) => query.execute()))
+  }
 }
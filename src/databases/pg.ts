@@ -1,65 +1,210 @@
 import { QueryBuilder } from '../builder'
+import { postgresDialect } from '../dialects'
 import { FetchTypes } from '../enums'
-import { PGResult, QueryBuilderOptions } from '../interfaces'
-import { asyncMigrationsBuilder, MigrationOptions } from '../migrations'
+import { InvalidConfigurationError } from '../errors'
+import { PGLazyOptions, PGQueryBuilderOptions, PGResult, PGTransactionOptions } from '../interfaces'
+import {
+  AnyMigration,
+  appliedChecksum,
+  asyncMigrationsBuilder,
+  PGMigrationOptions,
+  RollbackOptions,
+} from '../migrations'
 import { TableSchema } from '../schema'
+import { LiveTable } from '../schemaDiff'
 import { Query } from '../tools'
+import { Merge } from '../typefest'
+
+let cursorId = 0
 
 class PGMigrationsBuilder extends asyncMigrationsBuilder<PGResult> {
+  declare _builder: PGQB
+  _options: PGMigrationOptions
+
+  constructor(options: PGMigrationOptions, builder: PGQB) {
+    super(options, builder)
+    this._options = options
+  }
+
   async initialize(): Promise<void> {
     await this._builder
       .createTable({
         tableName: this._tableName,
         schema: `id         SERIAL PRIMARY KEY,
                name       TEXT UNIQUE,
-               applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL`,
+               applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+               checksum   TEXT,
+               duration_ms INTEGER`,
         ifNotExists: true,
       })
       .execute()
-  }
 
-  async apply(): Promise<Array<{ name: string; sql: string }>> {
-    const appliedMigrations: Array<{ name: string; sql: string }> = []
+    // Migrations tables created by earlier versions get the missing columns added
+    await this._builder
+      .raw({
+        query: `ALTER TABLE ${this._tableName} ADD COLUMN IF NOT EXISTS checksum TEXT,
+        ADD COLUMN IF NOT EXISTS duration_ms INTEGER`,
+      })
+      .execute()
+  }
 
-    for (const migration of await this.getUnapplied()) {
-      await this._builder.raw({ query: 'BEGIN' }).execute()
+  /**
+   * Read a table of the current schema, through information_schema.columns and pg_indexes.
+   * Primary key and unique constraints are not read, so changes to them are not diffed.
+   */
+  async introspect(tableName: string): Promise<LiveTable | null> {
+    const columns = (
+      await this._builder
+        .raw<{ column_name: string; data_type: string; is_nullable: string; column_default: string | null }>({
+          query: `SELECT column_name, data_type, is_nullable, column_default
+                  FROM information_schema.columns
+                  WHERE table_schema = current_schema() AND table_name = ?
+                  ORDER BY ordinal_position`,
+          args: [tableName],
+          fetchType: FetchTypes.ALL,
+        })
+        .execute()
+    ).results
+    if (!columns || columns.length === 0) return null
 
-      try {
+    const indexes =
+      (
         await this._builder
-          .raw({
-            query: migration.sql,
+          .raw<{ indexname: string }>({
+            query: 'SELECT indexname FROM pg_indexes WHERE schemaname = current_schema() AND tablename = ?',
+            args: [tableName],
+            fetchType: FetchTypes.ALL,
           })
           .execute()
+      ).results || []
 
-        await this._builder
+    return {
+      name: tableName,
+      columns: columns.map((column) => ({
+        name: column.column_name,
+        type: column.data_type,
+        notNull: column.is_nullable === 'NO',
+        default: column.column_default,
+      })),
+      indexes: indexes.map((index) => index.indexname),
+    }
+  }
+
+  async _initializeLock(): Promise<void> {
+    // Advisory locks need no table
+  }
+
+  // Session level advisory lock, keyed by the name of the migrations table
+  async _tryLock(): Promise<boolean> {
+    const result = await this._builder
+      .raw<{ locked: boolean }>({
+        query: 'SELECT pg_try_advisory_lock(hashtext(?)) AS locked',
+        args: [this._tableName],
+        fetchType: FetchTypes.ONE,
+      })
+      .execute()
+
+    return result.results?.locked === true
+  }
+
+  async _renewLock(): Promise<void> {
+    // Advisory locks have no lease, they are held until released or the session ends
+  }
+
+  async _unlock(): Promise<void> {
+    await this._builder.raw({ query: 'SELECT pg_advisory_unlock(hashtext(?))', args: [this._tableName] }).execute()
+  }
+
+  /**
+   * Apply the pending migrations, each in its own transaction.
+   * The advisory lock and the transactions belong to a session, so with a `pg.Pool` they all run on one client checked
+   * out for the whole run.
+   */
+  async apply(): Promise<Array<AnyMigration>> {
+    return this._inSession((migrations) => migrations._applyPending())
+  }
+
+  /**
+   * Revert the last applied migrations, each in its own transaction, on a single connection like apply().
+   */
+  async rollback(options?: RollbackOptions): Promise<Array<AnyMigration>> {
+    return this._inSession((migrations) => migrations._rollback(options ?? {}))
+  }
+
+  async rollbackTo(name: string): Promise<Array<AnyMigration>> {
+    return this._inSession((migrations) => migrations._rollback({ name }))
+  }
+
+  // Run the callback with a migrations builder whose queries all share one session
+  async _inSession<T>(callback: (migrations: PGMigrationsBuilder) => Promise<T>): Promise<T> {
+    return this._builder._withSession((session) => callback(new PGMigrationsBuilder(this._options, session)))
+  }
+
+  async _applyPending(): Promise<Array<AnyMigration>> {
+    return this._withLock(async () => {
+      await this._checkDrift()
+      const appliedMigrations: Array<AnyMigration> = []
+
+      for (const migration of await this.getUnapplied()) {
+        // up() receives the transaction builder, so its own transaction() and exec() calls become savepoints
+        await this._builder.transaction(async (tx) => {
+          const start = Date.now()
+          if ('up' in migration) {
+            await migration.up(tx)
+          } else {
+            for (const query of tx._scriptQueries(migration.sql)) {
+              await query.execute()
+            }
+          }
+
+          await tx
+            .raw({
+              query: `INSERT INTO ${this._tableName} (name, checksum, duration_ms)
+              values (?, ?, ?);`,
+              args: [migration.name, appliedChecksum(migration), Date.now() - start],
+            })
+            .execute()
+        })
+        appliedMigrations.push(migration)
+      }
+
+      return appliedMigrations
+    })
+  }
+
+  async _revert(migrations: Array<AnyMigration & { down: string }>): Promise<Array<AnyMigration>> {
+    for (const migration of migrations) {
+      await this._builder.transaction(async (tx) => {
+        for (const query of tx._scriptQueries(migration.down)) {
+          await query.execute()
+        }
+
+        await tx
           .raw({
-            query: `INSERT INTO ${this._tableName} (name)
-            values (?);`,
+            query: `DELETE FROM ${this._tableName}
+            WHERE name = ?;`,
             args: [migration.name],
           })
           .execute()
-
-        await this._builder.raw({ query: 'COMMIT' }).execute()
-        appliedMigrations.push(migration)
-      } catch (error) {
-        await this._builder.raw({ query: 'ROLLBACK' }).execute()
-        throw error
-      }
+      })
     }
 
-    return appliedMigrations
+    return migrations
   }
 }
 
 export class PGQB<Schema extends TableSchema = {}> extends QueryBuilder<Schema, PGResult, true> {
   public db: any
+  protected _transactionDepth = 0
+  protected _cursorBatchSize: number
 
-  constructor(db: any, options?: QueryBuilderOptions) {
-    super(options)
+  constructor(db: any, options?: PGQueryBuilderOptions) {
+    super({ ...options, dialect: options?.dialect ?? postgresDialect })
     this.db = db
+    this._cursorBatchSize = options?.cursorBatchSize ?? 100
   }
 
-  migrations(options: MigrationOptions) {
+  migrations(options: PGMigrationOptions) {
     return new PGMigrationsBuilder(options, this)
   }
 
@@ -71,26 +216,215 @@ export class PGQB<Schema extends TableSchema = {}> extends QueryBuilder<Schema,
     await this.db.end()
   }
 
+  /**
+   * Execute queries atomically inside a PostgreSQL transaction.
+   * The callback receives a query builder bound to a single connection: when `db` is a `pg.Pool` a client is checked
+   * out for the whole transaction and released afterwards. The transaction is rolled back when the callback throws.
+   * Calling `transaction()` on the `tx` builder creates a nested transaction using a savepoint, a failing nested
+   * transaction only rolls back to its savepoint. Nested transactions must be awaited one at a time.
+   *
+   * @param callback - A function that receives the transaction query builder
+   * @param options - Transaction options, like the isolation level
+   * @returns The return value of the callback
+   *
+   * @example
+   * const order = await qb.transaction(
+   *   async (tx) => {
+   *     const order = await tx.insert({ tableName: 'orders', data: { user_id: 1, total: 100 }, returning: '*' }).execute()
+   *     await tx.update({ tableName: 'users', data: { balance: new Raw('balance - 100') }, where: { id: 1 } }).execute()
+   *     return order.results
+   *   },
+   *   { isolationLevel: 'SERIALIZABLE' }
+   * )
+   */
+  async transaction<T>(callback: (tx: PGQB<Schema>) => Promise<T>, options?: PGTransactionOptions): Promise<T> {
+    if (this._transactionDepth > 0) {
+      if (options?.isolationLevel) {
+        throw new InvalidConfigurationError(
+          'Isolation level can only be set on the outermost transaction',
+          'Remove isolationLevel from the nested transaction() call'
+        )
+      }
+
+      const savepoint = `sp_${this._transactionDepth}`
+      await this.raw({ query: `SAVEPOINT ${savepoint}` }).execute()
+      this._transactionDepth++
+
+      try {
+        const result = await callback(this)
+        await this.raw({ query: `RELEASE SAVEPOINT ${savepoint}` }).execute()
+        return result
+      } catch (error) {
+        await this.raw({ query: `ROLLBACK TO SAVEPOINT ${savepoint}` }).execute()
+        throw error
+      } finally {
+        this._transactionDepth--
+      }
+    }
+
+    return this._withSession(async (tx) => {
+      tx._transactionDepth = 1
+      await tx
+        .raw({ query: options?.isolationLevel ? `BEGIN ISOLATION LEVEL ${options.isolationLevel}` : 'BEGIN' })
+        .execute()
+
+      try {
+        const result = await callback(tx)
+        await tx.raw({ query: 'COMMIT' }).execute()
+        return result
+      } catch (error) {
+        await tx.raw({ query: 'ROLLBACK' }).execute()
+        throw error
+      }
+    })
+  }
+
+  /**
+   * Run the callback with a query builder bound to a single connection, for queries that must share a session.
+   * When `db` is a `pg.Pool` a client is checked out for the callback and released afterwards.
+   */
+  async _withSession<T>(callback: (session: PGQB<Schema>) => Promise<T>): Promise<T> {
+    // A pg.Pool runs each query on any idle client, so a dedicated client is needed to keep the queries together
+    const isPool = typeof this.db.totalCount === 'number'
+    const client = isPool ? await this.db.connect() : this.db
+
+    try {
+      return await callback(new PGQB<Schema>(client, { ...this.options, cursorBatchSize: this._cursorBatchSize }))
+    } finally {
+      if (isPool) {
+        client.release()
+      }
+    }
+  }
+
+  /**
+   * Run an SQL script in a transaction, after splitting it into statements with `splitStatements()`.
+   * Statements are sent one at a time, with dollar-quoted function bodies kept whole.
+   *
+   * @param script - The SQL script, statements separated by semicolons
+   * @returns Array of results, one per statement
+   *
+   * @example
+   * await qb.exec(`
+   *   CREATE FUNCTION touch() RETURNS trigger AS $$
+   *   BEGIN
+   *     NEW.updated_at = now();
+   *     RETURN NEW;
+   *   END;
+   *   $$ LANGUAGE plpgsql;
+   *   CREATE TRIGGER users_touch BEFORE UPDATE ON users FOR EACH ROW EXECUTE FUNCTION touch();
+   * `)
+   */
+  async exec(script: string): Promise<Array<PGResult>> {
+    return this.transaction(async (tx) => {
+      const results: Array<PGResult> = []
+      for (const query of tx._scriptQueries(script)) {
+        results.push(await query.execute())
+      }
+      return results
+    })
+  }
+
+  /**
+   * Stream the results of a query through a server-side cursor (`DECLARE ... CURSOR` / `FETCH n`), keeping only one
+   * batch of rows in memory at a time. Used by `fetchAll({ lazy })` and `select().execute({ lazy })`, which pass the
+   * options given as `lazy`.
+   * The cursor runs inside its own transaction on a single connection (a client is checked out when `db` is a
+   * `pg.Pool`), or inside the current transaction when called from `transaction()`. The transaction is committed
+   * once all rows are read or the iteration stops early, and rolled back when fetching fails.
+   *
+   * @param query - The SELECT query to stream
+   * @param options - Lazy options, like the number of rows fetched per round trip
+   *
+   * @example
+   * const users = await qb.fetchAll({ tableName: 'users', lazy: true }).execute()
+   * for await (const user of users.results!) {
+   *   await exportUser(user)
+   * }
+   */
+  async lazyExecute(
+    query: Query<any, true>,
+    options?: PGLazyOptions
+  ): Promise<Merge<PGResult, { results: AsyncIterable<any> }> & AsyncIterable<any>> {
+    const result = {
+      command: 'SELECT',
+      rowCount: 0, // Counts the rows streamed so far
+      results: undefined as unknown as AsyncIterable<any>,
+      [Symbol.asyncIterator]() {
+        return result.results[Symbol.asyncIterator]()
+      },
+    }
+    result.results = this._streamCursor(query, options?.batchSize ?? this._cursorBatchSize, (rows) => {
+      result.rowCount += rows
+    })
+
+    return result
+  }
+
+  protected async *_streamCursor(
+    query: Query<any, true>,
+    batchSize: number,
+    onBatch: (rows: number) => void
+  ): AsyncGenerator<any> {
+    const inTransaction = this._transactionDepth > 0
+    // A pg.Pool runs each query on any idle client, and a cursor only lives inside the transaction of its connection
+    const isPool = !inTransaction && typeof this.db.totalCount === 'number'
+    const client = isPool ? await this.db.connect() : this.db
+    const cursor = isPool ? new PGQB(client, this.options) : this
+    const cursorName = `workers_qb_cursor_${++cursorId}`
+
+    let failed = false
+    try {
+      if (!inTransaction) {
+        await cursor.raw({ query: 'BEGIN' }).execute()
+      }
+      await cursor
+        .raw({ query: `DECLARE ${cursorName} NO SCROLL CURSOR FOR ${query.query}`, args: query.arguments })
+        .execute()
+
+      while (true) {
+        const batch = await cursor
+          .raw({ query: `FETCH ${batchSize} FROM ${cursorName}`, fetchType: FetchTypes.ALL })
+          .execute()
+        const rows = batch.results ?? []
+        onBatch(rows.length)
+
+        for (const row of rows) {
+          yield row
+        }
+
+        if (rows.length < batchSize) break
+      }
+    } catch (error) {
+      failed = true
+      if (!inTransaction) {
+        await cursor.raw({ query: 'ROLLBACK' }).execute()
+      }
+      throw error
+    } finally {
+      // Also reached when the consumer stops iterating early
+      if (!failed) {
+        await cursor.raw({ query: inTransaction ? `CLOSE ${cursorName}` : 'COMMIT' }).execute()
+      }
+      if (isPool) {
+        client.release()
+      }
+    }
+  }
+
   async execute(query: Query) {
     return await this.loggerWrapper(query, this.options.logger, async () => {
-      // Convert ? placeholders to PostgreSQL $N style in a single pass.
-      // Numbered ?1, ?2 keep their index ($1, $2, ...).
-      // Bare ? are assigned the next available index after the highest numbered ?N seen.
-      // This guarantees globally unique $N indices even if both styles appear in the same query.
-      const maxNumbered = Math.max(0, ...[...query.query.matchAll(/\?(\d+)/g)].map((m) => Number.parseInt(m[1]!, 10)))
-      let paramIndex = maxNumbered
-      const queryString = query.query.replace(/\?(\d+)?/g, (_, n) => (n !== undefined ? `$${n}` : `$${++paramIndex}`))
-
+      // Queries are compiled with the postgres dialect, so placeholders are already in the $N style
       let result
 
       if (query.arguments) {
         result = await this.db.query({
           values: query.arguments,
-          text: queryString,
+          text: query.query,
         })
       } else {
         result = await this.db.query({
-          text: queryString,
+          text: query.query,
         })
       }
 
@@ -0,0 +1,93 @@
+import { ConflictTypes } from './enums'
+import { InvalidConfigurationError } from './errors'
+import { ColumnType, Dialect, Primitive } from './interfaces'
+
+function quoteIdentifier(identifier: string): string {
+  return identifier
+    .split('.')
+    .map((part) => (part === '*' ? part : `"${part.replace(/"/g, '""')}"`))
+    .join('.')
+}
+
+function quoteString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`
+}
+
+/**
+ * SQLite, used by D1 and Durable Objects.
+ * Numbered placeholders use the ?N syntax, and conflicts are resolved with INSERT OR <resolution> / UPDATE OR <resolution>.
+ */
+export const sqliteDialect: Dialect = {
+  name: 'sqlite',
+  supportsReturning: true,
+  supportsAlterColumn: false,
+  placeholder(index: number, sequential?: boolean): string {
+    return sequential ? '?' : `?${index}`
+  },
+  quoteIdentifier,
+  conflictResolution(statement: 'INSERT' | 'UPDATE', resolution: ConflictTypes | string) {
+    return { prefix: `OR ${resolution} `, suffix: '' }
+  },
+  literal(value: Primitive | Date): string {
+    if (value === null) return 'NULL'
+    if (typeof value === 'string') return quoteString(value)
+    if (typeof value === 'boolean') return value ? '1' : '0'
+    if (value instanceof Date) return quoteString(value.toISOString())
+    if (value instanceof ArrayBuffer) return "'[ArrayBuffer]'"
+    return String(value)
+  },
+  columnType(type: ColumnType): string {
+    return type.toUpperCase()
+  },
+  primaryKey(autoIncrement?: boolean): string {
+    return autoIncrement ? 'PRIMARY KEY AUTOINCREMENT' : 'PRIMARY KEY'
+  },
+}
+
+const POSTGRES_COLUMN_TYPES: Record<ColumnType, string> = {
+  integer: 'INTEGER',
+  real: 'DOUBLE PRECISION',
+  text: 'TEXT',
+  blob: 'BYTEA',
+}
+
+/**
+ * PostgreSQL, used by PGQB.
+ * Placeholders use the $N syntax, and only `IGNORE` conflicts can be resolved without an upsert (ON CONFLICT DO NOTHING).
+ */
+export const postgresDialect: Dialect = {
+  name: 'postgres',
+  supportsReturning: true,
+  supportsAlterColumn: true,
+  placeholder(index: number): string {
+    return `$${index}`
+  },
+  quoteIdentifier,
+  conflictResolution(statement: 'INSERT' | 'UPDATE', resolution: ConflictTypes | string) {
+    if (statement === 'INSERT' && resolution === ConflictTypes.IGNORE) {
+      return { prefix: '', suffix: ' ON CONFLICT DO NOTHING' }
+    }
+
+    throw new InvalidConfigurationError(
+      `PostgreSQL does not support ${statement} OR ${resolution}`,
+      statement === 'INSERT'
+        ? "Use onConflict: 'IGNORE', or an upsert with onConflict: { column, data }"
+        : 'Remove onConflict from the update'
+    )
+  },
+  literal(value: Primitive | Date): string {
+    if (value === null) return 'NULL'
+    if (typeof value === 'string') return quoteString(value)
+    if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE'
+    if (value instanceof Date) return `${quoteString(value.toISOString())}::timestamptz`
+    if (value instanceof ArrayBuffer) return "'[ArrayBuffer]'"
+    return String(value)
+  },
+  columnType(type: ColumnType, autoIncrement?: boolean): string {
+    // SERIAL creates the sequence that provides the auto incremented values
+    return autoIncrement && type === 'integer' ? 'SERIAL' : POSTGRES_COLUMN_TYPES[type]
+  },
+  primaryKey(): string {
+    return 'PRIMARY KEY'
+  },
+}
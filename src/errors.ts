@@ -69,13 +69,16 @@ export class ParameterMismatchError extends QueryBuilderError {
     query?: string
     expectedParams: number
     receivedParams: number
+    hint?: string
   }) {
     const tooMany = options.receivedParams > options.expectedParams
     super('Parameter count mismatch', {
       ...options,
-      hint: tooMany
-        ? 'Remove extra parameters or add more placeholders (?) to your query'
-        : 'Add missing parameters or remove extra placeholders (?) from your query',
+      hint:
+        options.hint ??
+        (tooMany
+          ? 'Remove extra parameters or add more placeholders (?) to your query'
+          : 'Add missing parameters or remove extra placeholders (?) from your query'),
     })
     this.name = 'ParameterMismatchError'
   }
@@ -126,3 +129,31 @@ export class MissingSubqueryContextError extends QueryBuilderError {
     this.name = 'MissingSubqueryContextError'
   }
 }
+
+/**
+ * Error thrown when a guard of a D1 transaction fails, aborting the whole batch.
+ */
+export class TransactionGuardError extends QueryBuilderError {
+  public guard: string
+
+  constructor(guard: string) {
+    super(`Transaction guard failed: ${guard}`, {
+      hint: 'None of the queries in the transaction were applied, re-read the data and retry if needed',
+    })
+    this.name = 'TransactionGuardError'
+    this.guard = guard
+  }
+}
+
+/**
+ * Error thrown when migrations cannot be applied or rolled back.
+ */
+export class MigrationError extends QueryBuilderError {
+  public migration?: string
+
+  constructor(message: string, options?: { migration?: string; hint?: string }) {
+    super(message, { hint: options?.hint })
+    this.name = 'MigrationError'
+    this.migration = options?.migration
+  }
+}
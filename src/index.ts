@@ -2,10 +2,13 @@ export * from './builder'
 export * from './databases/d1'
 export * from './databases/do'
 export * from './databases/pg'
+export * from './dialects'
 export * from './enums'
 export * from './errors'
 export * from './interfaces'
 export * from './logger'
 export * from './migrations'
 export * from './schema'
+export * from './schemaDiff'
+export * from './table'
 export * from './tools'
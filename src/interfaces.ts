@@ -40,24 +40,99 @@ export type AfterQueryHook<IsAsync extends boolean = true> = (
 
 export type QueryBuilderOptions<IsAsync extends boolean = true> = {
   logger?: (query: RawQuery, meta: QueryLoggerMeta) => MaybeAsync<IsAsync, void>
+  /** SQL dialect used to compile queries, defaults to the dialect of the database (sqlite for D1 and DO, postgres for PG) */
+  dialect?: Dialect
+  /** Quote table and column names with the dialect, so reserved words and mixed-case names can be used */
+  quoteIdentifiers?: boolean
+  /**
+   * Reject table and column names that are not plain identifiers, to keep user input placed in orderBy, fields,
+   * groupBy or data keys from injecting SQL. Pass a { table: columns } allowlist to also reject unknown names
+   */
+  strictIdentifiers?: boolean | Record<string, ReadonlyArray<string>>
   /** Hook called before each query execution */
   beforeQuery?: BeforeQueryHook<IsAsync>
   /** Hook called after each query execution */
   afterQuery?: AfterQueryHook<IsAsync>
 }
 
+/**
+ * SQL dialect consulted by the query compiler for everything that differs between databases.
+ * workers-qb ships `sqliteDialect` and `postgresDialect`.
+ */
+export type Dialect = {
+  name: string
+  /** Whether INSERT, UPDATE and DELETE statements support a RETURNING clause */
+  supportsReturning: boolean
+  /** Whether ALTER TABLE can change the type, NOT NULL and DEFAULT of a column, otherwise schema diffs rebuild the table */
+  supportsAlterColumn: boolean
+  /**
+   * Placeholder for the parameter at the given 1-based position of the arguments.
+   * Sequential placeholders appear in the same order as their arguments, so dialects may return a bare placeholder.
+   */
+  placeholder(index: number, sequential?: boolean): string
+  /** Quote a table or column name, qualified names (table.column) are quoted part by part */
+  quoteIdentifier(identifier: string): string
+  /** Conflict resolution (IGNORE, REPLACE, ...) of an INSERT or UPDATE, placed after the verb and at the end */
+  conflictResolution(
+    statement: 'INSERT' | 'UPDATE',
+    resolution: ConflictTypes | string
+  ): { prefix: string; suffix: string }
+  /** SQL literal of a value, used to print queries with their parameters inlined */
+  literal(value: Primitive | Date): string
+  /** Column type used in CREATE TABLE for a column declared with the table DSL */
+  columnType(type: ColumnType, autoIncrement?: boolean): string
+  /** PRIMARY KEY constraint of a column, including the auto increment keyword of the dialect when needed */
+  primaryKey(autoIncrement?: boolean): string
+}
+
+export type ColumnType = 'integer' | 'real' | 'text' | 'blob'
+
 export type DefaultObject = Record<string, Primitive>
 export type DefaultReturnObject = Record<string, null | string | number | boolean | bigint | ArrayBuffer>
 
-export type Where =
+export type WhereConditions =
   | {
       conditions: string | Array<string>
-      // TODO: enable named parameters with DefaultObject
-      params?: Primitive | Primitive[]
+      // Positional values for ? / ?N placeholders, or an object of values for :name placeholders
+      params?: Primitive | Primitive[] | DefaultObject
     }
   | string
   | Array<string>
 
+/**
+ * Values that can be compared against a column in object-style where conditions.
+ */
+export type WhereValue = null | string | number | boolean | bigint | ArrayBuffer | Raw
+
+/**
+ * Operators accepted for a column in object-style where conditions.
+ * Multiple operators on the same column are ANDed together.
+ */
+export type WhereOperators<Value = WhereValue> = {
+  eq?: Value | null | Raw
+  ne?: Value | null | Raw
+  gt?: Value | Raw
+  gte?: Value | Raw
+  lt?: Value | Raw
+  lte?: Value | Raw
+  in?: Array<Value>
+  notIn?: Array<Value>
+  like?: string
+  notLike?: string
+  between?: [Value, Value]
+  notBetween?: [Value, Value]
+}
+
+/**
+ * Object-style where conditions, e.g. `{ status: 'active', age: { gt: 18 }, deleted_at: null }`.
+ * Every column is ANDed together. Objects with a `conditions` key are treated as `WhereConditions` instead.
+ */
+export type WhereObject<Row = Record<string, WhereValue>> = {
+  [Column in keyof Row & string]?: Row[Column] | null | Raw | WhereOperators<Row[Column]>
+}
+
+export type Where = WhereConditions | WhereObject
+
 export type Join = {
   type?: string | JoinTypes
   table: string | SelectAll | SelectBuilder<any, any, any>
@@ -67,12 +142,12 @@ export type Join = {
 
 export type SelectOne = {
   tableName: string
-  fields?: string | Array<string>
+  fields?: string | Raw | Array<string | Raw>
   where?: Where
   join?: Join | Array<Join>
-  groupBy?: string | Array<string>
+  groupBy?: string | Raw | Array<string | Raw>
   having?: Where
-  orderBy?: string | Array<string> | Record<string, string | OrderTypes>
+  orderBy?: string | Raw | Array<string | Raw> | Record<string, string | OrderTypes>
   offset?: number
   subQueryPlaceholders?: Record<string, SelectAll>
   subQueryTokenNextId?: number
@@ -109,7 +184,7 @@ export type CTEDefinition = {
 
 export type SelectAll = SelectOne & {
   limit?: number
-  lazy?: boolean
+  lazy?: boolean | LazyOptions
   /** Set operations (UNION, INTERSECT, EXCEPT) to combine with this query */
   setOperations?: SetOperation[]
   /** Common Table Expressions (CTEs) for WITH clause */
@@ -147,6 +222,8 @@ export type Update = {
   where?: Where
   returning?: string | Array<string>
   onConflict?: string | ConflictTypes
+  subQueryPlaceholders?: Record<string, SelectAll>
+  subQueryTokenNextId?: number
 }
 
 export type UpdateReturning = Omit<Update, 'returning'> & {
@@ -161,6 +238,8 @@ export type Delete = {
   orderBy?: string | Array<string> | Record<string, string | OrderTypes>
   limit?: number
   offset?: number
+  subQueryPlaceholders?: Record<string, SelectAll>
+  subQueryTokenNextId?: number
 }
 
 export type DeleteReturning = Omit<Delete, 'returning'> & {
@@ -192,17 +271,58 @@ export type D1Result = {
   success: boolean
 }
 
+export type D1QueryBuilderOptions = QueryBuilderOptions & {
+  // Number of rows fetched per query when paging through lazy results, defaults to 1000
+  lazyBatchSize?: number
+}
+
+export type D1LazyOptions = {
+  // Overrides the lazyBatchSize of the query builder for this query
+  batchSize?: number
+  // Page with `WHERE <keyset> > ?` on this column instead of LIMIT/OFFSET, it must be unique, not null and selected
+  keyset?: string
+}
+
 export type DOResult = {
   rowsRead: number
   rowsWritten: number
 }
 
+export type DOQueryBuilderOptions = QueryBuilderOptions<false> & {
+  // The storage of the Durable Object (ctx.storage), transactions then run through storage.transactionSync()
+  // as Durable Objects reject the BEGIN TRANSACTION and SAVEPOINT statements
+  storage?: { transactionSync<T>(closure: () => T): T }
+}
+
 export type PGResult = {
   command: string
   lastRowId?: string | number
   rowCount: number
 }
 
+export type PGIsolationLevel = 'READ UNCOMMITTED' | 'READ COMMITTED' | 'REPEATABLE READ' | 'SERIALIZABLE'
+
+export type PGQueryBuilderOptions = QueryBuilderOptions & {
+  // Number of rows fetched per round trip when streaming lazy results through a cursor, defaults to 100
+  cursorBatchSize?: number
+}
+
+export type PGLazyOptions = {
+  // Overrides the cursorBatchSize of the query builder for this query
+  batchSize?: number
+}
+
+// Options of lazy execution, passed as `lazy` instead of true. D1 pages with the keyset, PostgreSQL cursors ignore it
+export type LazyOptions = D1LazyOptions & PGLazyOptions
+
+// Whether the params of a SELECT ask for lazy execution
+export type IsLazy<P> = P extends { lazy: true | LazyOptions } ? true : false
+
+export type PGTransactionOptions = {
+  // Only allowed on the outermost transaction, nested transactions run inside the same isolation level
+  isolationLevel?: PGIsolationLevel
+}
+
 export type IterableResult<ResultWrapper, Result, IsAsync extends boolean> = IsAsync extends true
   ? Promise<Merge<ResultWrapper, { results?: AsyncIterable<Result> }>>
   : Merge<ResultWrapper, { results?: Iterable<Result> }>
@@ -249,6 +369,11 @@ export type MaybeAsync<IsAsync extends boolean, T> = IsAsync extends true ? Asyn
 // Schema-Aware Types
 // ============================================================================
 
+/**
+ * Schema-aware WHERE conditions, object-style conditions only accept the table's columns.
+ */
+export type TypedWhere<S extends TableSchema, T extends TableName<S>> = WhereConditions | WhereObject<S[T]>
+
 /**
  * Schema-aware SELECT parameters.
  * When a schema is provided, tableName and fields get autocomplete.
@@ -260,7 +385,7 @@ export type TypedSelectOne<
 > = {
   tableName: T
   fields?: F[] | F | '*'
-  where?: Where
+  where?: TypedWhere<S, T>
   join?: Join | Array<Join>
   groupBy?: ColumnName<S, T> | ColumnName<S, T>[] | string | string[]
   having?: Where
@@ -277,7 +402,7 @@ export type TypedSelectAll<
   F extends ColumnName<S, T> = ColumnName<S, T>,
 > = TypedSelectOne<S, T, F> & {
   limit?: number
-  lazy?: boolean
+  lazy?: boolean | LazyOptions
 }
 
 /**
@@ -296,7 +421,7 @@ export type TypedInsert<S extends TableSchema, T extends TableName<S>> = {
 export type TypedUpdate<S extends TableSchema, T extends TableName<S>> = {
   tableName: T
   data: Partial<S[T]>
-  where?: Where
+  where?: TypedWhere<S, T>
   returning?: ColumnName<S, T>[] | ColumnName<S, T> | '*'
   onConflict?: string | ConflictTypes
 }
@@ -306,7 +431,7 @@ export type TypedUpdate<S extends TableSchema, T extends TableName<S>> = {
  */
 export type TypedDelete<S extends TableSchema, T extends TableName<S>> = {
   tableName: T
-  where: Where
+  where: TypedWhere<S, T>
   returning?: ColumnName<S, T>[] | ColumnName<S, T> | '*'
   orderBy?: Partial<Record<ColumnName<S, T>, OrderTypes | string>> | string | string[]
   limit?: number
@@ -1,31 +1,282 @@
 import { QueryBuilder } from './builder'
+import type { D1QB } from './databases/d1'
+import type { DOQB } from './databases/do'
+import type { PGQB } from './databases/pg'
+import { FetchTypes } from './enums'
+import { InvalidConfigurationError, MigrationError } from './errors'
+import { Primitive } from './interfaces'
+import {
+  diffSchema,
+  LiveTable,
+  SchemaDiffOptions,
+  SQLITE_REFERENCES_QUERY,
+  SQLiteIndexInfo,
+  SQLiteIndexList,
+  SQLiteReference,
+  SQLiteTableInfo,
+  sqliteLiveTable,
+} from './schemaDiff'
+import { TableDefinition } from './table'
 
 export type MigrationEntry = {
   id: number
   name: string
   applied_at: Date
+  // Null for migrations applied before checksums were recorded
+  checksum: string | null
+  // Milliseconds the migration took to apply, null for migrations applied before durations were recorded
+  duration_ms: number | null
 }
 
 export type Migration = {
   name: string
   sql: string
+  // Reverts the migration, required to roll it back
+  down?: string
 }
 
-export type MigrationOptions = {
-  migrations: Array<Migration>
+/**
+ * Data migration computed in code, receiving the query builder that applies the migrations (D1QB, DOQB or PGQB).
+ * The migration options of each query builder type `up()` for it: Durable Objects migrations are synchronous, so their
+ * `up()` function cannot be async.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type DataMigration<QB = any, Result = void | Promise<void>> = {
+  name: string
+  up: (qb: QB) => Result
+  // Reverts the migration, required to roll it back
+  down?: string
+}
+
+// SQL and data migrations are tracked in the same table and applied in the same order
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type AnyMigration<QB = any, Result = void | Promise<void>> = Migration | DataMigration<QB, Result>
+
+export type RollbackOptions = {
+  // Number of applied migrations to revert, defaults to 1
+  steps?: number
+}
+
+export type SchemaDefinition = Array<TableDefinition> | Record<string, TableDefinition>
+
+export type MigrationOptions<M extends AnyMigration = AnyMigration> = {
+  migrations: Array<M>
   tableName?: string
+  // Throw a MigrationError from apply() when verify() finds drift, before applying anything
+  failOnDrift?: boolean
+}
+
+// Durable Objects migrations, whose up() function is synchronous. A plain void return type would accept async
+// functions, which the union with undefined rejects
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type DOMigration = AnyMigration<DOQB<any>, void | undefined>
+
+export type DOMigrationOptions = MigrationOptions<DOMigration> & {
+  // Apply each migration in its own transaction, or all the pending migrations in one. Both need the storage of the
+  // Durable Object, defaults to each with the storage and to no transaction without it
+  transaction?: 'each' | 'all'
+}
+
+export type MigrationLockOptions = {
+  // Milliseconds to wait for a lock held by another process before throwing, defaults to 30000
+  timeout?: number
+  // Milliseconds between attempts to take the lock, defaults to 500
+  retryInterval?: number
+  // Milliseconds after which a lock row is considered abandoned and can be taken over, defaults to 60000.
+  // PostgreSQL advisory locks do not expire, they are released when the session ends
+  lease?: number
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type AsyncMigrationOptions<QB = any> = MigrationOptions<AnyMigration<QB>> & {
+  // Hold a lock while applying, so that concurrent apply() calls do not run the same migrations
+  lock?: boolean | MigrationLockOptions
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type PGMigrationOptions = AsyncMigrationOptions<PGQB<any>>
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type D1MigrationOptions = AsyncMigrationOptions<D1QB<any>> & {
+  // Read and write the d1_migrations table of `wrangler d1 migrations apply`, migrations are named after their
+  // numbered files (0001_name.sql) and applied in the order of their numbers
+  wrangler?: boolean
+}
+
+export type ApplyOptions = {
+  // Return the statements of the pending migrations without executing them
+  dryRun?: boolean
+}
+
+export type MigrationPlan = AnyMigration & {
+  // Statements that apply the migration, including the one recording it in the migrations table
+  statements: Array<{ sql: string; params: Primitive[] }>
+}
+
+export type MigrationStatus = {
+  name: string
+  // Orphaned migrations are applied, but not in the migrations list anymore
+  state: 'applied' | 'pending' | 'orphaned'
+  // Null for pending migrations
+  appliedAt: Date | null
+  // Milliseconds the migration took to apply, null for pending migrations and when it was not recorded
+  duration: number | null
+}
+
+export type MigrationVerification = {
+  ok: boolean
+  // Applied migrations whose SQL changed since they were applied
+  modified: Array<string>
+  // Migrations that are not applied, while migrations after them in the list are
+  missing: Array<string>
+  // Applied migrations that are not in the migrations list
+  unknown: Array<string>
+}
+
+/**
+ * Checksum of the SQL of a migration, recorded when it is applied to detect later edits.
+ * Line endings and surrounding whitespace are normalized, so checkouts on different platforms get the same checksum.
+ */
+export function migrationChecksum(sql: string): string {
+  // 64 bit FNV-1a, computed synchronously for the Durable Objects migrations
+  let hash = 0xcbf29ce484222325n
+  for (const byte of new TextEncoder().encode(sql.replace(/\r\n/g, '\n').trim())) {
+    hash = ((hash ^ BigInt(byte)) * 0x100000001b3n) & 0xffffffffffffffffn
+  }
+  return hash.toString(16).padStart(16, '0')
+}
+
+/**
+ * Checksum recorded when a migration is applied.
+ * Null for migrations with an up() function, as their source changes with every build.
+ */
+export function appliedChecksum(migration: AnyMigration): string | null {
+  return 'sql' in migration ? migrationChecksum(migration.sql) : null
+}
+
+/**
+ * Compare the applied migrations with the migrations list.
+ */
+function verifyMigrations(applied: Array<MigrationEntry>, migrations: Array<AnyMigration>): MigrationVerification {
+  const appliedNames = new Set(applied.map((entry) => entry.name))
+  const knownNames = new Set(migrations.map((migration) => migration.name))
+
+  const modified = applied
+    .filter((entry) => {
+      const migration = migrations.find((migration) => migration.name === entry.name)
+      const checksum = migration ? appliedChecksum(migration) : null
+      return checksum !== null && entry.checksum !== null && entry.checksum !== checksum
+    })
+    .map((entry) => entry.name)
+  const lastApplied = migrations.findLastIndex((migration) => appliedNames.has(migration.name))
+  const missing = migrations
+    .slice(0, lastApplied + 1)
+    .filter((migration) => !appliedNames.has(migration.name))
+    .map((migration) => migration.name)
+  const unknown = applied.filter((entry) => !knownNames.has(entry.name)).map((entry) => entry.name)
+
+  return { ok: modified.length + missing.length + unknown.length === 0, modified, missing, unknown }
+}
+
+// SQLite returns CURRENT_TIMESTAMP as a 'YYYY-MM-DD HH:MM:SS' string in UTC, PostgreSQL drivers return a Date
+function appliedDate(value: Date | string): Date {
+  return value instanceof Date ? value : new Date(`${value.replace(' ', 'T')}Z`)
+}
+
+/**
+ * List the applied migrations in the order they were applied, followed by the pending ones.
+ */
+function migrationStatus(applied: Array<MigrationEntry>, migrations: Array<AnyMigration>): Array<MigrationStatus> {
+  const appliedNames = new Set(applied.map((entry) => entry.name))
+  const knownNames = new Set(migrations.map((migration) => migration.name))
+
+  return [
+    ...applied.map(
+      (entry): MigrationStatus => ({
+        name: entry.name,
+        state: knownNames.has(entry.name) ? 'applied' : 'orphaned',
+        appliedAt: appliedDate(entry.applied_at),
+        duration: entry.duration_ms ?? null,
+      })
+    ),
+    ...migrations
+      .filter((migration) => !appliedNames.has(migration.name))
+      .map(
+        (migration): MigrationStatus => ({ name: migration.name, state: 'pending', appliedAt: null, duration: null })
+      ),
+  ]
+}
+
+function driftError(verification: MigrationVerification): MigrationError {
+  const problems = (['modified', 'missing', 'unknown'] as const)
+    .filter((kind) => verification[kind].length > 0)
+    .map((kind) => `${kind}: ${verification[kind].join(', ')}`)
+
+  return new MigrationError(`Migrations drifted from the database (${problems.join('; ')})`, {
+    hint: 'Restore the applied migrations as they were, nothing was applied',
+  })
+}
+
+/**
+ * Select the applied migrations that a rollback reverts, most recent first.
+ * Throws before anything is reverted when one of them is unknown or has no down script.
+ */
+function migrationsToRevert(
+  applied: Array<MigrationEntry>,
+  migrations: Array<AnyMigration>,
+  target: RollbackOptions | { name: string }
+): Array<AnyMigration & { down: string }> {
+  let reverted: Array<MigrationEntry>
+  if ('name' in target) {
+    const index = applied.findIndex((entry) => entry.name === target.name)
+    if (index === -1) {
+      throw new MigrationError(`Cannot roll back to ${target.name}, the migration is not applied`, {
+        migration: target.name,
+        hint: 'Use getApplied() to list the applied migrations',
+      })
+    }
+    reverted = applied.slice(index + 1)
+  } else {
+    const steps = target.steps ?? 1
+    if (!Number.isInteger(steps) || steps < 1) {
+      throw new InvalidConfigurationError(`Rollback steps must be a positive integer, got ${steps}`)
+    }
+    reverted = applied.slice(-steps)
+  }
+
+  return reverted.reverse().map((entry) => {
+    const migration = migrations.find((migration) => migration.name === entry.name)
+    if (!migration) {
+      throw new MigrationError(`Cannot roll back ${entry.name}, the migration is not in the migrations list`, {
+        migration: entry.name,
+        hint: 'Pass every applied migration to migrations() to roll them back',
+      })
+    }
+    if (migration.down === undefined) {
+      throw new MigrationError(`Cannot roll back ${entry.name}, the migration has no down script`, {
+        migration: entry.name,
+        hint: 'Add a down script to the migration, nothing was rolled back',
+      })
+    }
+    return migration as AnyMigration & { down: string }
+  })
 }
 
+// Columns added to the migrations tables created by earlier versions
+const ADDED_COLUMNS = { checksum: 'TEXT', duration_ms: 'INTEGER' }
+
 export class syncMigrationsBuilder<GenericResultWrapper> {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   _builder: QueryBuilder<any, GenericResultWrapper, false>
-  _migrations: Array<Migration>
+  _migrations: Array<AnyMigration>
   _tableName: string
+  _failOnDrift: boolean
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   constructor(options: MigrationOptions, builder: QueryBuilder<any, GenericResultWrapper, false>) {
     this._tableName = options.tableName || 'migrations'
     this._migrations = options.migrations
+    this._failOnDrift = options.failOnDrift ?? false
     this._builder = builder
   }
 
@@ -35,12 +286,19 @@ export class syncMigrationsBuilder<GenericResultWrapper> {
         tableName: this._tableName,
         schema: `id         INTEGER PRIMARY KEY AUTOINCREMENT,
                name       TEXT UNIQUE,
-               applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL`,
+               applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+               checksum   TEXT,
+               duration_ms INTEGER`,
         ifNotExists: true,
       })
       .execute()
 
-    return
+    const table = this.introspect(this._tableName)
+    for (const [name, type] of Object.entries(ADDED_COLUMNS)) {
+      if (table && !table.columns.some((column) => column.name === name)) {
+        this._builder.raw({ query: `ALTER TABLE ${this._tableName} ADD COLUMN ${name} ${type}` }).execute()
+      }
+    }
   }
 
   getApplied(): Array<MigrationEntry> {
@@ -54,12 +312,12 @@ export class syncMigrationsBuilder<GenericResultWrapper> {
     return result.results || []
   }
 
-  getUnapplied(): Array<Migration> {
+  getUnapplied(): Array<AnyMigration> {
     const appliedMigrations = this.getApplied().map((migration) => {
       return migration.name
     })
 
-    const unappliedMigrations: Array<Migration> = []
+    const unappliedMigrations: Array<AnyMigration> = []
 
     for (const migration of this._migrations) {
       if (!appliedMigrations.includes(migration.name)) {
@@ -70,37 +328,172 @@ export class syncMigrationsBuilder<GenericResultWrapper> {
     return unappliedMigrations
   }
 
-  apply(): Array<Migration> {
-    const appliedMigrations: Array<Migration> = []
+  /**
+   * Read a table of the database, through PRAGMA table_info and index_list, with the foreign keys referencing it.
+   * Returns null when the table does not exist.
+   */
+  introspect(tableName: string): LiveTable | null {
+    const quote = (name: string) => this._builder.dialect.quoteIdentifier(name)
+    const columns = this._builder
+      .raw<SQLiteTableInfo>({ query: `PRAGMA table_info(${quote(tableName)})`, fetchType: FetchTypes.ALL })
+      .execute().results
+    if (!columns || columns.length === 0) return null
 
-    for (const migration of this.getUnapplied()) {
+    const indexes =
       this._builder
-        .raw({
-          query: `${migration.sql}
-          INSERT INTO ${this._tableName} (name)
-          values (?);`,
-          args: [migration.name],
+        .raw<SQLiteIndexList>({ query: `PRAGMA index_list(${quote(tableName)})`, fetchType: FetchTypes.ALL })
+        .execute().results || []
+    const uniqueColumns: Array<string> = []
+    for (const index of indexes) {
+      if (index.origin !== 'u') continue
+      const indexColumns =
+        this._builder
+          .raw<SQLiteIndexInfo>({ query: `PRAGMA index_info(${quote(index.name)})`, fetchType: FetchTypes.ALL })
+          .execute().results || []
+      if (indexColumns.length === 1) uniqueColumns.push(indexColumns[0]!.name)
+    }
+    const references =
+      this._builder
+        .raw<SQLiteReference>({
+          query: SQLITE_REFERENCES_QUERY,
+          args: [tableName, tableName],
+          fetchType: FetchTypes.ALL,
         })
-        .execute()
+        .execute().results || []
+
+    return sqliteLiveTable(tableName, columns, indexes, uniqueColumns, references)
+  }
+
+  /**
+   * Compare the declared tables with the database, returning the migrations needed to bring the database to them.
+   * The returned migrations are not applied, add them to the migrations list to apply them.
+   */
+  diff(tables: SchemaDefinition, options?: SchemaDiffOptions): Array<Migration> {
+    const definitions = Array.isArray(tables) ? tables : Object.values(tables)
+    const live: Record<string, LiveTable | null> = {}
+    for (const table of definitions) {
+      live[table.name] = this.introspect(table.name)
+    }
+
+    // Migrations are applied in a transaction, where PRAGMA foreign_keys has no effect
+    return diffSchema(definitions, live, this._builder.dialect, { foreignKeys: 'defer', ...options })
+  }
+
+  /**
+   * Compare the applied migrations with the migrations list, reporting modified, missing and unknown migrations.
+   */
+  verify(): MigrationVerification {
+    return verifyMigrations(this.getApplied(), this._migrations)
+  }
+
+  /**
+   * List every known migration as applied, pending or orphaned, with when it was applied and how long it took.
+   */
+  status(): Array<MigrationStatus> {
+    return migrationStatus(this.getApplied(), this._migrations)
+  }
+
+  _checkDrift(): void {
+    if (!this._failOnDrift) return
+    const verification = this.verify()
+    if (!verification.ok) throw driftError(verification)
+  }
 
+  apply(): Array<AnyMigration> {
+    this._checkDrift()
+    const appliedMigrations: Array<AnyMigration> = []
+
+    for (const migration of this.getUnapplied()) {
+      this._applyMigration(migration)
       appliedMigrations.push(migration)
     }
 
     return appliedMigrations
   }
+
+  _applyMigration(migration: AnyMigration): void {
+    const start = Date.now()
+    if ('up' in migration) {
+      if (migration.up(this._builder) instanceof Promise) {
+        throw new MigrationError(`Migration ${migration.name} returned a promise, up() must be synchronous`, {
+          migration: migration.name,
+          hint: 'Queries of Durable Objects are synchronous, remove async from the up() function',
+        })
+      }
+    } else {
+      for (const query of this._builder._scriptQueries(migration.sql)) {
+        query.execute()
+      }
+    }
+
+    this._builder
+      .raw({
+        query: `INSERT INTO ${this._tableName} (name, checksum, duration_ms)
+        values (?, ?, ?);`,
+        args: [migration.name, appliedChecksum(migration), Date.now() - start],
+      })
+      .execute()
+  }
+
+  /**
+   * Revert the last applied migrations with their down scripts, most recent first.
+   *
+   * @example
+   * qb.migrations({ migrations }).rollback({ steps: 2 })
+   */
+  rollback(options?: RollbackOptions): Array<AnyMigration> {
+    return this._revert(migrationsToRevert(this.getApplied(), this._migrations, options ?? {}))
+  }
+
+  /**
+   * Revert every migration applied after the given one, which stays applied.
+   */
+  rollbackTo(name: string): Array<AnyMigration> {
+    return this._revert(migrationsToRevert(this.getApplied(), this._migrations, { name }))
+  }
+
+  _revert(migrations: Array<AnyMigration & { down: string }>): Array<AnyMigration> {
+    for (const migration of migrations) {
+      this._revertMigration(migration)
+    }
+
+    return migrations
+  }
+
+  _revertMigration(migration: AnyMigration & { down: string }): void {
+    for (const query of this._builder._scriptQueries(migration.down)) {
+      query.execute()
+    }
+
+    this._builder
+      .raw({
+        query: `DELETE FROM ${this._tableName}
+        WHERE name = ?;`,
+        args: [migration.name],
+      })
+      .execute()
+  }
 }
 
 export class asyncMigrationsBuilder<GenericResultWrapper> {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   _builder: QueryBuilder<any, GenericResultWrapper, true>
-  _migrations: Array<Migration>
+  _migrations: Array<AnyMigration>
   _tableName: string
+  _failOnDrift: boolean
+  _lock: Required<MigrationLockOptions> | null
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  constructor(options: MigrationOptions, builder: QueryBuilder<any, GenericResultWrapper, true>) {
+  constructor(options: AsyncMigrationOptions, builder: QueryBuilder<any, GenericResultWrapper, true>) {
     this._tableName = options.tableName || 'migrations'
     this._migrations = options.migrations
+    this._failOnDrift = options.failOnDrift ?? false
     this._builder = builder
+
+    const lock = options.lock === true ? {} : options.lock
+    this._lock = lock
+      ? { timeout: lock.timeout ?? 30000, retryInterval: lock.retryInterval ?? 500, lease: lock.lease ?? 60000 }
+      : null
   }
 
   async initialize(): Promise<void> {
@@ -109,16 +502,27 @@ export class asyncMigrationsBuilder<GenericResultWrapper> {
         tableName: this._tableName,
         schema: `id         INTEGER PRIMARY KEY AUTOINCREMENT,
                name       TEXT UNIQUE,
-               applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL`,
+               applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+               checksum   TEXT,
+               duration_ms INTEGER`,
         ifNotExists: true,
       })
       .execute()
 
-    return
+    const table = await this.introspect(this._tableName)
+    for (const [name, type] of Object.entries(ADDED_COLUMNS)) {
+      if (table && !table.columns.some((column) => column.name === name)) {
+        await this._builder.raw({ query: `ALTER TABLE ${this._tableName} ADD COLUMN ${name} ${type}` }).execute()
+      }
+    }
   }
 
   async getApplied(): Promise<Array<MigrationEntry>> {
     await this.initialize()
+    return this._fetchApplied()
+  }
+
+  async _fetchApplied(): Promise<Array<MigrationEntry>> {
     const result = await this._builder
       .fetchAll<MigrationEntry>({
         tableName: this._tableName,
@@ -128,12 +532,12 @@ export class asyncMigrationsBuilder<GenericResultWrapper> {
     return result.results || []
   }
 
-  async getUnapplied(): Promise<Array<Migration>> {
+  async getUnapplied(): Promise<Array<AnyMigration>> {
     const appliedMigrations = (await this.getApplied()).map((migration) => {
       return migration.name
     })
 
-    const unappliedMigrations: Array<Migration> = []
+    const unappliedMigrations: Array<AnyMigration> = []
 
     for (const migration of this._migrations) {
       if (!appliedMigrations.includes(migration.name)) {
@@ -144,22 +548,237 @@ export class asyncMigrationsBuilder<GenericResultWrapper> {
     return unappliedMigrations
   }
 
-  async apply(): Promise<Array<Migration>> {
-    const appliedMigrations: Array<Migration> = []
+  /**
+   * Read a table of the database, through PRAGMA table_info and index_list, with the foreign keys referencing it.
+   * Returns null when the table does not exist.
+   */
+  async introspect(tableName: string): Promise<LiveTable | null> {
+    const quote = (name: string) => this._builder.dialect.quoteIdentifier(name)
+    const columns = (
+      await this._builder
+        .raw<SQLiteTableInfo>({ query: `PRAGMA table_info(${quote(tableName)})`, fetchType: FetchTypes.ALL })
+        .execute()
+    ).results
+    if (!columns || columns.length === 0) return null
+
+    const indexes =
+      (
+        await this._builder
+          .raw<SQLiteIndexList>({ query: `PRAGMA index_list(${quote(tableName)})`, fetchType: FetchTypes.ALL })
+          .execute()
+      ).results || []
+    const uniqueColumns: Array<string> = []
+    for (const index of indexes) {
+      if (index.origin !== 'u') continue
+      const indexColumns =
+        (
+          await this._builder
+            .raw<SQLiteIndexInfo>({ query: `PRAGMA index_info(${quote(index.name)})`, fetchType: FetchTypes.ALL })
+            .execute()
+        ).results || []
+      if (indexColumns.length === 1) uniqueColumns.push(indexColumns[0]!.name)
+    }
+    const references =
+      (
+        await this._builder
+          .raw<SQLiteReference>({
+            query: SQLITE_REFERENCES_QUERY,
+            args: [tableName, tableName],
+            fetchType: FetchTypes.ALL,
+          })
+          .execute()
+      ).results || []
+
+    return sqliteLiveTable(tableName, columns, indexes, uniqueColumns, references)
+  }
+
+  /**
+   * Compare the declared tables with the database, returning the migrations needed to bring the database to them.
+   * The returned migrations are not applied, add them to the migrations list to apply them.
+   */
+  async diff(tables: SchemaDefinition, options?: SchemaDiffOptions): Promise<Array<Migration>> {
+    const definitions = Array.isArray(tables) ? tables : Object.values(tables)
+    const live: Record<string, LiveTable | null> = {}
+    for (const table of definitions) {
+      live[table.name] = await this.introspect(table.name)
+    }
+
+    // Migrations are applied in a transaction, where PRAGMA foreign_keys has no effect
+    return diffSchema(definitions, live, this._builder.dialect, { foreignKeys: 'defer', ...options })
+  }
+
+  /**
+   * Compare the applied migrations with the migrations list, reporting modified, missing and unknown migrations.
+   */
+  async verify(): Promise<MigrationVerification> {
+    return verifyMigrations(await this.getApplied(), this._migrations)
+  }
+
+  /**
+   * List every known migration as applied, pending or orphaned, with when it was applied and how long it took.
+   */
+  async status(): Promise<Array<MigrationStatus>> {
+    return migrationStatus(await this.getApplied(), this._migrations)
+  }
+
+  async _checkDrift(applied?: Array<MigrationEntry>): Promise<void> {
+    if (!this._failOnDrift) return
+    const verification = applied ? verifyMigrations(applied, this._migrations) : await this.verify()
+    if (!verification.ok) throw driftError(verification)
+  }
+
+  /**
+   * Run the callback while holding the migrations lock, when the lock option is set.
+   * A lock held by another process is retried until the timeout, then a MigrationError is thrown.
+   * The callback receives a `renew` function to call before each migration, extending the lease of the lock and
+   * throwing if another process took it over meanwhile.
+   */
+  async _withLock<T>(callback: (renew: () => Promise<void>) => Promise<T>): Promise<T> {
+    const lock = this._lock
+    if (!lock) return callback(async () => {})
+
+    const owner = crypto.randomUUID()
+    await this._initializeLock()
+    const deadline = Date.now() + lock.timeout
+    while (!(await this._tryLock(owner, lock))) {
+      if (Date.now() >= deadline) {
+        throw new MigrationError(
+          `Timed out after ${lock.timeout}ms waiting for the lock of the ${this._tableName} table`,
+          {
+            hint: 'Another process is applying migrations, retry once it is done or raise the lock timeout',
+          }
+        )
+      }
+      await new Promise((resolve) => setTimeout(resolve, lock.retryInterval))
+    }
+
+    try {
+      return await callback(() => this._renewLock(owner, lock))
+    } finally {
+      await this._unlock(owner)
+    }
+  }
+
+  async _initializeLock(): Promise<void> {
+    await this._builder
+      .createTable({
+        tableName: `${this._tableName}_lock`,
+        schema: `id         INTEGER PRIMARY KEY,
+               owner      TEXT NOT NULL,
+               expires_at INTEGER NOT NULL`,
+        ifNotExists: true,
+      })
+      .execute()
+  }
+
+  // The lock is a single row, taken over by others once its lease expired
+  async _tryLock(owner: string, lock: Required<MigrationLockOptions>): Promise<boolean> {
+    const lockTable = `${this._tableName}_lock`
+    const now = Date.now()
+    const result = await this._builder
+      .raw<{ owner: string }>({
+        query: `INSERT INTO ${lockTable} (id, owner, expires_at)
+        values (1, ?, ?)
+        ON CONFLICT (id) DO UPDATE SET owner = excluded.owner, expires_at = excluded.expires_at
+        WHERE ${lockTable}.expires_at < ?
+        RETURNING owner`,
+        args: [owner, now + lock.lease, now],
+        fetchType: FetchTypes.ONE,
+      })
+      .execute()
+
+    return result.results?.owner === owner
+  }
+
+  async _renewLock(owner: string, lock: Required<MigrationLockOptions>): Promise<void> {
+    const result = await this._builder
+      .raw<{ owner: string }>({
+        query: `UPDATE ${this._tableName}_lock SET expires_at = ? WHERE id = 1 AND owner = ? RETURNING owner`,
+        args: [Date.now() + lock.lease, owner],
+        fetchType: FetchTypes.ONE,
+      })
+      .execute()
+
+    if (result.results?.owner !== owner) {
+      throw new MigrationError(`Lost the lock of the ${this._tableName} table, another process took it over`, {
+        hint: 'The lease of the lock expired while a migration was running, raise the lock lease above the duration of the longest migration',
+      })
+    }
+  }
+
+  async _unlock(owner: string): Promise<void> {
+    await this._builder
+      .raw({ query: `DELETE FROM ${this._tableName}_lock WHERE id = 1 AND owner = ?`, args: [owner] })
+      .execute()
+  }
+
+  async apply(): Promise<Array<AnyMigration>> {
+    return this._withLock(async (renew) => {
+      await this._checkDrift()
+      const appliedMigrations: Array<AnyMigration> = []
+
+      for (const migration of await this.getUnapplied()) {
+        await renew()
+        const start = Date.now()
+        if ('up' in migration) {
+          await migration.up(this._builder)
+        } else {
+          for (const query of this._builder._scriptQueries(migration.sql)) {
+            await query.execute()
+          }
+        }
+
+        await this._builder
+          .raw({
+            query: `INSERT INTO ${this._tableName} (name, checksum, duration_ms)
+            values (?, ?, ?);`,
+            args: [migration.name, appliedChecksum(migration), Date.now() - start],
+          })
+          .execute()
+
+        appliedMigrations.push(migration)
+      }
+
+      return appliedMigrations
+    })
+  }
+
+  /**
+   * Revert the last applied migrations with their down scripts, most recent first.
+   *
+   * @example
+   * await qb.migrations({ migrations }).rollback({ steps: 2 })
+   */
+  async rollback(options?: RollbackOptions): Promise<Array<AnyMigration>> {
+    return this._rollback(options ?? {})
+  }
+
+  /**
+   * Revert every migration applied after the given one, which stays applied.
+   */
+  async rollbackTo(name: string): Promise<Array<AnyMigration>> {
+    return this._rollback({ name })
+  }
+
+  async _rollback(target: RollbackOptions | { name: string }): Promise<Array<AnyMigration>> {
+    return this._revert(migrationsToRevert(await this.getApplied(), this._migrations, target))
+  }
+
+  async _revert(migrations: Array<AnyMigration & { down: string }>): Promise<Array<AnyMigration>> {
+    for (const migration of migrations) {
+      for (const query of this._builder._scriptQueries(migration.down)) {
+        await query.execute()
+      }
 
-    for (const migration of await this.getUnapplied()) {
       await this._builder
         .raw({
-          query: `${migration.sql}
-          INSERT INTO ${this._tableName} (name)
-          values (?);`,
+          query: `DELETE FROM ${this._tableName}
+          WHERE name = ?;`,
           args: [migration.name],
         })
         .execute()
-
-      appliedMigrations.push(migration)
     }
 
-    return appliedMigrations
+    return migrations
   }
 }
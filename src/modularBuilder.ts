@@ -1,9 +1,16 @@
-import { FetchTypes, JoinTypes, SetOperationType } from './enums'
-import { InvalidConfigurationError, ParameterMismatchError } from './errors'
+import { ConflictTypes, FetchTypes, JoinTypes, SetOperationType } from './enums'
+import { InvalidConfigurationError, MissingDataError, ParameterMismatchError, QueryBuilderError } from './errors'
 import {
   ArrayResult,
+  ConflictUpsert,
   CountResult,
+  DefaultObject,
   DefaultReturnObject,
+  Delete,
+  Insert,
+  IsLazy,
+  Join,
+  LazyOptions,
   MaybeAsync,
   OneResult,
   PaginatedResult,
@@ -11,9 +18,20 @@ import {
   Primitive,
   SelectAll,
   SelectOne,
+  Update,
+  Where,
+  WhereObject,
 } from './interfaces'
-import { TableSchema } from './schema'
-import { Query, QueryWithExtra } from './tools'
+import { SchemaAware, TableSchema } from './schema'
+import {
+  compileNamedParams,
+  compileWhereObject,
+  isNamedParams,
+  isWhereObject,
+  Query,
+  QueryWithExtra,
+  queryTables,
+} from './tools'
 
 export interface PaginateOptions {
   page: number
@@ -21,83 +39,80 @@ export interface PaginateOptions {
 }
 
 export interface SelectExecuteOptions {
-  lazy?: boolean
+  // true, or the options of the lazy execution like its batch size
+  lazy?: boolean | LazyOptions
 }
 
-export class SelectBuilder<
-  Schema extends TableSchema = {},
-  GenericResultWrapper = unknown,
-  GenericResult = DefaultReturnObject,
-  IsAsync extends boolean = true,
-> {
-  _debugger = false
-  _options: Partial<SelectAll> = {}
-  _fetchAll: (params: SelectAll) => QueryWithExtra<GenericResultWrapper, any, IsAsync>
-  _fetchOne: (params: SelectOne) => QueryWithExtra<GenericResultWrapper, any, IsAsync>
+export type WhereBuilderOptions = {
+  where?: Where
+  subQueryPlaceholders?: Record<string, SelectAll>
+  subQueryTokenNextId?: number
+  /**
+   * Places object-style where column names in the query, set by the QueryBuilder to validate and quote them.
+   * Receives the tables of the query, whose strictIdentifiers allowlist entries the column is checked against
+   */
+  identifier?: (column: string, tables?: Array<string>) => string
+}
 
-  constructor(
-    options: Partial<SelectAll>,
-    fetchAll: (params: SelectAll) => QueryWithExtra<GenericResultWrapper, any, IsAsync>,
-    fetchOne: (params: SelectOne) => QueryWithExtra<GenericResultWrapper, any, IsAsync>
-  ) {
-    this._options = options
-    this._fetchAll = fetchAll
-    this._fetchOne = fetchOne
-  }
+/**
+ * Shared WHERE clause helpers for the modular builders.
+ * Every method returns a new builder of the same type, created through `_clone()`.
+ */
+export abstract class WhereBuilder<
+  Options extends WhereBuilderOptions,
+  Conditions extends WhereObject<any> = WhereObject,
+> {
+  _options: Partial<Options> = {}
+  /** Set by the UPDATE and DELETE builders, where undefined object-style values throw instead of being skipped */
+  protected readonly _statement?: 'UPDATE' | 'DELETE'
 
-  setDebugger(state: boolean): void {
-    this._debugger = state
-  }
+  protected abstract _clone(options: Partial<Options>): this
 
-  tableName(tableName: SelectAll['tableName']): SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync> {
-    return new SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync>(
-      {
-        ...this._options,
-        tableName: tableName,
-      },
-      this._fetchAll,
-      this._fetchOne
-    )
+  // Column names given to the where helpers are validated and quoted like the object-style where columns
+  protected _column(column: string): string {
+    return this._options.identifier ? this._options.identifier(column, this._tables()) : column
   }
 
-  fields(fields: SelectAll['fields']): SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync> {
-    return this._parseArray('fields', this._options.fields, fields)
+  // Tables of the query, the table of the builder and, for SELECT, the tables it joins so far
+  protected _tables(): Array<string> {
+    const options = this._options as { tableName?: string; join?: Join | Array<Join> }
+    return queryTables(options.tableName, options.join)
   }
 
   /**
-   * Enable DISTINCT selection to remove duplicate rows from results.
+   * Add a WHERE condition to the query, ANDed with the existing ones.
+   * Accepts a condition string (or array of strings) with its params, or object-style conditions.
    *
-   * @param columns - Optional array of columns for DISTINCT ON (PostgreSQL only).
-   *                  If not provided, applies simple DISTINCT.
+   * A callback can be passed to group conditions, it receives the builder without its WHERE conditions and the
+   * conditions it adds are wrapped in parentheses.
    *
    * @example
-   * // Simple DISTINCT
-   * qb.select('users').distinct().execute()
-   * // SELECT DISTINCT * FROM users
+   * qb.select('users').where({ status: 'active', age: { gt: 18 }, deleted_at: null }).execute()
+   * // SELECT * FROM users WHERE (status = ?) AND (age > ?) AND (deleted_at IS NULL)
    *
    * @example
-   * // DISTINCT ON specific columns (PostgreSQL)
-   * qb.select('users').distinct(['department']).fields(['department', 'name']).execute()
-   * // SELECT DISTINCT ON (department) department, name FROM users
+   * qb.select('users')
+   *   .where('tenant_id = ?', 1)
+   *   .where((w) => w.where('role = ?', 'admin').orWhere('owner = ?', true))
+   *   .execute()
+   * // SELECT * FROM users WHERE (tenant_id = ?) AND ((role = ?) OR (owner = ?))
    */
-  distinct(columns?: Array<string>): SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync> {
-    return new SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync>(
-      {
-        ...this._options,
-        distinct: columns ?? true,
-      },
-      this._fetchAll,
-      this._fetchOne
-    )
-  }
-
+  where(group: (builder: this) => this): this
+  where(conditions: Conditions): this
+  where(conditions: string | Array<string>, params?: Primitive | Primitive[] | DefaultObject): this
   where(
-    conditions: string | Array<string>,
-    params?: Primitive | Primitive[]
-  ): SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync> {
-    // Ensure _options has the necessary fields for subquery handling
-    const subQueryPlaceholders = this._options.subQueryPlaceholders ?? {}
-    let subQueryTokenNextId = this._options.subQueryTokenNextId ?? 0
+    conditions: string | Array<string> | WhereObject<any> | ((builder: this) => this),
+    params?: Primitive | Primitive[] | DefaultObject
+  ): this {
+    if (typeof conditions === 'function') {
+      const group = this._whereGroup(conditions as (builder: this) => this)
+      return group.condition === undefined ? group.builder : group.builder.where(group.condition, group.params)
+    }
+
+    if (typeof conditions === 'object' && !Array.isArray(conditions)) {
+      const compiled = compileWhereObject(conditions, (column) => this._column(column), this._statement)
+      return this.where(compiled.conditions, compiled.params)
+    }
 
     const existingConditions =
       this._options.where && typeof this._options.where === 'object' && 'conditions' in this._options.where
@@ -111,84 +126,17 @@ export class SelectBuilder<
         ? (this._options.where.params as Primitive[])
         : []
 
-    const currentInputConditions = Array.isArray(conditions) ? conditions : [conditions]
-    const currentInputParams = params === undefined ? [] : Array.isArray(params) ? params : [params]
-
-    const processedNewConditions: string[] = []
-    const collectedPrimitiveParams: Primitive[] = []
-    let paramIndex = 0
-
-    for (const conditionStr of currentInputConditions) {
-      if (!conditionStr.includes('?')) {
-        processedNewConditions.push(conditionStr)
-        continue
-      }
-
-      const conditionParts = conditionStr.split('?')
-      let builtCondition = conditionParts[0] ?? ''
+    const processed = this._processConditions('WHERE', conditions, params)
 
-      for (let j = 0; j < conditionParts.length - 1; j++) {
-        if (paramIndex >= currentInputParams.length) {
-          const totalPlaceholders = currentInputConditions.join(' AND ').split('?').length - 1
-          throw new ParameterMismatchError({
-            clause: 'WHERE',
-            query: currentInputConditions.join(' AND '),
-            expectedParams: totalPlaceholders,
-            receivedParams: currentInputParams.length,
-          })
-        }
-        const currentParam = currentInputParams[paramIndex++]
-
-        const isSubQuery =
-          (typeof currentParam === 'object' &&
-            currentParam !== null &&
-            ('tableName' in currentParam || 'getOptions' in currentParam) &&
-            !currentParam.hasOwnProperty('_raw')) ||
-          currentParam instanceof SelectBuilder
-
-        if (isSubQuery) {
-          const token = `__SUBQUERY_TOKEN_${subQueryTokenNextId++}__`
-          subQueryPlaceholders[token] =
-            currentParam instanceof SelectBuilder
-              ? currentParam.getOptions()
-              : 'getOptions' in currentParam && typeof currentParam.getOptions === 'function'
-                ? (currentParam.getOptions() as SelectAll)
-                : (currentParam as SelectAll)
-          builtCondition += token
-        } else {
-          builtCondition += '?'
-          if (currentParam !== undefined) {
-            collectedPrimitiveParams.push(currentParam)
-          }
-        }
-        builtCondition += conditionParts[j + 1] ?? ''
-      }
-      processedNewConditions.push(builtCondition)
-    }
-
-    if (paramIndex < currentInputParams.length) {
-      const totalPlaceholders = currentInputConditions.join(' AND ').split('?').length - 1
-      throw new ParameterMismatchError({
-        clause: 'WHERE',
-        query: currentInputConditions.join(' AND '),
-        expectedParams: totalPlaceholders,
-        receivedParams: currentInputParams.length,
-      })
-    }
-
-    return new SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync>(
-      {
-        ...this._options,
-        subQueryPlaceholders,
-        subQueryTokenNextId,
-        where: {
-          conditions: existingConditions.concat(processedNewConditions),
-          params: existingParams.concat(collectedPrimitiveParams),
-        },
+    return this._clone({
+      ...this._options,
+      subQueryPlaceholders: processed.subQueryPlaceholders,
+      subQueryTokenNextId: processed.subQueryTokenNextId,
+      where: {
+        conditions: existingConditions.concat(processed.conditions),
+        params: existingParams.concat(processed.params),
       },
-      this._fetchAll,
-      this._fetchOne
-    )
+    })
   }
 
   /**
@@ -212,11 +160,32 @@ export class SelectBuilder<
    *   .orWhere('role = ?', 'superadmin')
    *   .execute()
    * // SELECT * FROM users WHERE ((tenant_id = ?) AND (status = ?)) OR (role = ?)
+   *
+   * @example
+   * // Grouped OR condition
+   * qb.select('users')
+   *   .where('status = ?', 'active')
+   *   .orWhere((w) => w.where('role = ?', 'admin').where('verified = ?', true))
+   *   .execute()
+   * // SELECT * FROM users WHERE (status = ?) OR ((role = ?) AND (verified = ?))
    */
+  orWhere(group: (builder: this) => this): this
+  orWhere(conditions: Conditions): this
+  orWhere(conditions: string | Array<string>, params?: Primitive | Primitive[] | DefaultObject): this
   orWhere(
-    conditions: string | Array<string>,
-    params?: Primitive | Primitive[]
-  ): SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync> {
+    conditions: string | Array<string> | WhereObject<any> | ((builder: this) => this),
+    params?: Primitive | Primitive[] | DefaultObject
+  ): this {
+    if (typeof conditions === 'function') {
+      const group = this._whereGroup(conditions as (builder: this) => this)
+      return group.condition === undefined ? group.builder : group.builder.orWhere(group.condition, group.params)
+    }
+
+    if (typeof conditions === 'object' && !Array.isArray(conditions)) {
+      const compiled = compileWhereObject(conditions, (column) => this._column(column), this._statement)
+      return this.orWhere(compiled.conditions, compiled.params)
+    }
+
     const existingConditions =
       this._options.where && typeof this._options.where === 'object' && 'conditions' in this._options.where
         ? (this._options.where.conditions as string[])
@@ -238,14 +207,10 @@ export class SelectBuilder<
 
     // Process the new conditions using where() on a builder with cleared conditions
     // but with preserved subquery context (subQueryPlaceholders, subQueryTokenNextId)
-    const clearedBuilder = new SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync>(
-      {
-        ...this._options,
-        where: undefined,
-      },
-      this._fetchAll,
-      this._fetchOne
-    )
+    const clearedBuilder = this._clone({
+      ...this._options,
+      where: undefined,
+    })
     const processedBuilder = clearedBuilder.where(conditions, params)
     const processedWhere = processedBuilder._options.where
     const newConditions =
@@ -263,43 +228,36 @@ export class SelectBuilder<
     const newCombined = newConditions.length === 1 ? newConditions[0] : `(${newConditions.join(') AND (')})`
     const orCondition = `(${existingCombined}) OR (${newCombined})`
 
-    return new SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync>(
-      {
-        // Spread processedBuilder._options to pick up any new subQueryPlaceholders/TokenNextId
-        ...processedBuilder._options,
-        where: {
-          conditions: [orCondition],
-          params: [...existingParams, ...newParams],
-        },
+    return this._clone({
+      // Spread processedBuilder._options to pick up any new subQueryPlaceholders/TokenNextId
+      ...processedBuilder._options,
+      where: {
+        conditions: [orCondition],
+        params: [...existingParams, ...newParams],
       },
-      this._fetchAll,
-      this._fetchOne
-    )
+    })
   }
 
   whereIn<T extends string | Array<string>, P extends T extends Array<string> ? Primitive[][] : Primitive[]>(
     fields: T,
     values: P
-  ): SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync> {
+  ): this {
     let whereInCondition: string
     let whereInParams: Primitive[]
 
     const seperateWithComma = (prev: string, next: string) => prev + ', ' + next
 
-    // if we have no values, we no-op
+    // if we have no values, we no-op, except in UPDATE and DELETE where dropping the condition would change more rows
     if (values.length === 0) {
-      return new SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync>(
-        {
-          ...this._options,
-        },
-        this._fetchAll,
-        this._fetchOne
-      )
+      if (this._statement) return this.where('0 = 1')
+      return this._clone({
+        ...this._options,
+      })
     }
 
     if (!Array.isArray(fields)) {
       // at this point, we know that it's a string
-      whereInCondition = `(${fields}) IN (VALUES `
+      whereInCondition = `(${this._column(fields)}) IN (VALUES `
 
       whereInCondition += values.map(() => '(?)').reduce(seperateWithComma)
       whereInCondition += ')'
@@ -309,7 +267,7 @@ export class SelectBuilder<
       // NOTE(lduarte): we assume that this is const throughout the values list, if it's not, oh well garbage in, garbage out
       const fieldLength = fields.length
 
-      whereInCondition = `(${fields.map((val) => val).reduce(seperateWithComma)}) IN (VALUES `
+      whereInCondition = `(${fields.map((val) => this._column(val)).reduce(seperateWithComma)}) IN (VALUES `
 
       const valuesString = `(${[...new Array(fieldLength).keys()].map(() => '?').reduce(seperateWithComma)})`
 
@@ -350,13 +308,9 @@ export class SelectBuilder<
    */
   when<T>(
     condition: T | undefined | null | false | 0 | '',
-    callback: (
-      builder: SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync>
-    ) => SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync>,
-    otherwise?: (
-      builder: SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync>
-    ) => SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync>
-  ): SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync> {
+    callback: (builder: this) => this,
+    otherwise?: (builder: this) => this
+  ): this {
     if (condition) {
       return callback(this)
     }
@@ -375,8 +329,8 @@ export class SelectBuilder<
    * qb.select('users').whereNull('deleted_at').execute()
    * // SELECT * FROM users WHERE deleted_at IS NULL
    */
-  whereNull(column: string): SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync> {
-    return this.where(`${column} IS NULL`)
+  whereNull(column: string): this {
+    return this.where(`${this._column(column)} IS NULL`)
   }
 
   /**
@@ -388,8 +342,8 @@ export class SelectBuilder<
    * qb.select('users').whereNotNull('email_verified_at').execute()
    * // SELECT * FROM users WHERE email_verified_at IS NOT NULL
    */
-  whereNotNull(column: string): SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync> {
-    return this.where(`${column} IS NOT NULL`)
+  whereNotNull(column: string): this {
+    return this.where(`${this._column(column)} IS NOT NULL`)
   }
 
   /**
@@ -402,11 +356,8 @@ export class SelectBuilder<
    * qb.select('products').whereBetween('price', [10, 100]).execute()
    * // SELECT * FROM products WHERE price BETWEEN ? AND ?
    */
-  whereBetween(
-    column: string,
-    range: [Primitive, Primitive]
-  ): SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync> {
-    return this.where(`${column} BETWEEN ? AND ?`, [range[0], range[1]])
+  whereBetween(column: string, range: [Primitive, Primitive]): this {
+    return this.where(`${this._column(column)} BETWEEN ? AND ?`, [range[0], range[1]])
   }
 
   /**
@@ -419,11 +370,8 @@ export class SelectBuilder<
    * qb.select('products').whereNotBetween('price', [10, 100]).execute()
    * // SELECT * FROM products WHERE price NOT BETWEEN ? AND ?
    */
-  whereNotBetween(
-    column: string,
-    range: [Primitive, Primitive]
-  ): SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync> {
-    return this.where(`${column} NOT BETWEEN ? AND ?`, [range[0], range[1]])
+  whereNotBetween(column: string, range: [Primitive, Primitive]): this {
+    return this.where(`${this._column(column)} NOT BETWEEN ? AND ?`, [range[0], range[1]])
   }
 
   /**
@@ -435,8 +383,8 @@ export class SelectBuilder<
    * qb.select('users').where('active = ?', true).orWhereNull('deleted_at').execute()
    * // SELECT * FROM users WHERE (active = ?) OR (deleted_at IS NULL)
    */
-  orWhereNull(column: string): SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync> {
-    return this.orWhere(`${column} IS NULL`)
+  orWhereNull(column: string): this {
+    return this.orWhere(`${this._column(column)} IS NULL`)
   }
 
   /**
@@ -448,8 +396,8 @@ export class SelectBuilder<
    * qb.select('users').whereNull('deleted_at').orWhereNotNull('verified_at').execute()
    * // SELECT * FROM users WHERE (deleted_at IS NULL) OR (verified_at IS NOT NULL)
    */
-  orWhereNotNull(column: string): SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync> {
-    return this.orWhere(`${column} IS NOT NULL`)
+  orWhereNotNull(column: string): this {
+    return this.orWhere(`${this._column(column)} IS NOT NULL`)
   }
 
   /**
@@ -462,11 +410,8 @@ export class SelectBuilder<
    * qb.select('products').where('active = ?', true).orWhereBetween('price', [10, 100]).execute()
    * // SELECT * FROM products WHERE (active = ?) OR (price BETWEEN ? AND ?)
    */
-  orWhereBetween(
-    column: string,
-    range: [Primitive, Primitive]
-  ): SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync> {
-    return this.orWhere(`${column} BETWEEN ? AND ?`, [range[0], range[1]])
+  orWhereBetween(column: string, range: [Primitive, Primitive]): this {
+    return this.orWhere(`${this._column(column)} BETWEEN ? AND ?`, [range[0], range[1]])
   }
 
   /**
@@ -479,11 +424,8 @@ export class SelectBuilder<
    * qb.select('products').where('featured = ?', true).orWhereNotBetween('price', [10, 100]).execute()
    * // SELECT * FROM products WHERE (featured = ?) OR (price NOT BETWEEN ? AND ?)
    */
-  orWhereNotBetween(
-    column: string,
-    range: [Primitive, Primitive]
-  ): SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync> {
-    return this.orWhere(`${column} NOT BETWEEN ? AND ?`, [range[0], range[1]])
+  orWhereNotBetween(column: string, range: [Primitive, Primitive]): this {
+    return this.orWhere(`${this._column(column)} NOT BETWEEN ? AND ?`, [range[0], range[1]])
   }
 
   /**
@@ -496,8 +438,8 @@ export class SelectBuilder<
    * qb.select('users').whereLike('name', '%john%').execute()
    * // SELECT * FROM users WHERE name LIKE ?
    */
-  whereLike(column: string, pattern: string): SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync> {
-    return this.where(`${column} LIKE ?`, [pattern])
+  whereLike(column: string, pattern: string): this {
+    return this.where(`${this._column(column)} LIKE ?`, [pattern])
   }
 
   /**
@@ -510,8 +452,8 @@ export class SelectBuilder<
    * qb.select('users').whereNotLike('email', '%@spam.com').execute()
    * // SELECT * FROM users WHERE email NOT LIKE ?
    */
-  whereNotLike(column: string, pattern: string): SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync> {
-    return this.where(`${column} NOT LIKE ?`, [pattern])
+  whereNotLike(column: string, pattern: string): this {
+    return this.where(`${this._column(column)} NOT LIKE ?`, [pattern])
   }
 
   /**
@@ -524,8 +466,8 @@ export class SelectBuilder<
    * qb.select('users').whereLike('name', '%john%').orWhereLike('email', '%john%').execute()
    * // SELECT * FROM users WHERE (name LIKE ?) OR (email LIKE ?)
    */
-  orWhereLike(column: string, pattern: string): SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync> {
-    return this.orWhere(`${column} LIKE ?`, [pattern])
+  orWhereLike(column: string, pattern: string): this {
+    return this.orWhere(`${this._column(column)} LIKE ?`, [pattern])
   }
 
   /**
@@ -538,8 +480,8 @@ export class SelectBuilder<
    * qb.select('users').where('active = ?', true).orWhereNotLike('email', '%@spam.com').execute()
    * // SELECT * FROM users WHERE (active = ?) OR (email NOT LIKE ?)
    */
-  orWhereNotLike(column: string, pattern: string): SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync> {
-    return this.orWhere(`${column} NOT LIKE ?`, [pattern])
+  orWhereNotLike(column: string, pattern: string): this {
+    return this.orWhere(`${this._column(column)} NOT LIKE ?`, [pattern])
   }
 
   /**
@@ -555,28 +497,31 @@ export class SelectBuilder<
   whereNotIn<T extends string | Array<string>, P extends T extends Array<string> ? Primitive[][] : Primitive[]>(
     fields: T,
     values: P
-  ): SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync> {
+  ): this {
     let whereNotInCondition: string
     let whereNotInParams: Primitive[]
 
     const separateWithComma = (prev: string, next: string) => prev + ', ' + next
 
     if (values.length === 0) {
-      return new SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync>(
-        { ...this._options },
-        this._fetchAll,
-        this._fetchOne
-      )
+      // Everything is NOT IN an empty list, which an UPDATE or DELETE would apply to every row the other conditions match
+      if (this._statement) {
+        throw new QueryBuilderError(`Empty whereNotIn() list for ${fields} in ${this._statement}`, {
+          clause: 'WHERE',
+          hint: `Skip the whereNotIn() call, e.g. with when(), if the ${this._statement} should not exclude any row`,
+        })
+      }
+      return this._clone({ ...this._options })
     }
 
     if (!Array.isArray(fields)) {
-      whereNotInCondition = `(${fields}) NOT IN (VALUES `
+      whereNotInCondition = `(${this._column(fields)}) NOT IN (VALUES `
       whereNotInCondition += values.map(() => '(?)').reduce(separateWithComma)
       whereNotInCondition += ')'
       whereNotInParams = values as Primitive[]
     } else {
       const fieldLength = fields.length
-      whereNotInCondition = `(${fields.map((val) => val).reduce(separateWithComma)}) NOT IN (VALUES `
+      whereNotInCondition = `(${fields.map((val) => this._column(val)).reduce(separateWithComma)}) NOT IN (VALUES `
       const valuesString = `(${[...new Array(fieldLength).keys()].map(() => '?').reduce(separateWithComma)})`
       whereNotInCondition += [...new Array(values.length).keys()].map(() => valuesString).reduce(separateWithComma)
       whereNotInCondition += ')'
@@ -586,6 +531,220 @@ export class SelectBuilder<
     return this.where(whereNotInCondition, whereNotInParams)
   }
 
+  /**
+   * Run a grouping callback against this builder without its WHERE conditions.
+   * Returns the grouped conditions combined into a single condition, and a builder that keeps the current
+   * WHERE conditions along with any subquery placeholders registered inside the group.
+   */
+  protected _whereGroup<Builder extends WhereBuilder<Options, Conditions>>(
+    this: Builder,
+    callback: (builder: Builder) => Builder
+  ): {
+    condition?: string
+    params: Primitive[]
+    builder: Builder
+  } {
+    const grouped = callback(this._clone({ ...this._options, where: undefined }))
+    const groupedWhere = grouped._options.where
+    const conditions =
+      groupedWhere && typeof groupedWhere === 'object' && 'conditions' in groupedWhere
+        ? (groupedWhere.conditions as string[])
+        : []
+    const params =
+      groupedWhere && typeof groupedWhere === 'object' && 'params' in groupedWhere && groupedWhere.params
+        ? ((Array.isArray(groupedWhere.params) ? groupedWhere.params : [groupedWhere.params]) as Primitive[])
+        : []
+
+    return {
+      condition:
+        conditions.length === 0
+          ? undefined
+          : conditions.length === 1
+            ? conditions[0]
+            : `(${conditions.join(') AND (')})`,
+      params,
+      builder: this._clone({ ...grouped._options, where: this._options.where }),
+    }
+  }
+
+  /**
+   * Split conditions on their ? placeholders, replacing subquery parameters with tokens
+   * that are compiled later by QueryBuilder._select.
+   */
+  protected _processConditions(
+    clause: string,
+    conditions: string | Array<string>,
+    params?: Primitive | Primitive[] | DefaultObject
+  ): {
+    conditions: string[]
+    params: Primitive[]
+    subQueryPlaceholders: Record<string, SelectAll>
+    subQueryTokenNextId: number
+  } {
+    // Ensure _options has the necessary fields for subquery handling
+    const subQueryPlaceholders: Record<string, SelectAll> = this._options.subQueryPlaceholders ?? {}
+    let subQueryTokenNextId = this._options.subQueryTokenNextId ?? 0
+
+    let currentInputConditions = Array.isArray(conditions) ? conditions : [conditions]
+    let currentInputParams: Primitive[]
+
+    if (isNamedParams(params)) {
+      // Named parameters are compiled to bare ? placeholders, so subqueries can also be passed by name
+      ;({ conditions: currentInputConditions, params: currentInputParams } = compileNamedParams(
+        clause,
+        currentInputConditions,
+        params
+      ))
+    } else {
+      currentInputParams = params === undefined ? [] : Array.isArray(params) ? params : [params as Primitive]
+    }
+
+    const processedNewConditions: string[] = []
+    const collectedPrimitiveParams: Primitive[] = []
+    let paramIndex = 0
+
+    for (const conditionStr of currentInputConditions) {
+      if (!conditionStr.includes('?')) {
+        processedNewConditions.push(conditionStr)
+        continue
+      }
+
+      const conditionParts = conditionStr.split('?')
+      let builtCondition = conditionParts[0] ?? ''
+
+      for (let j = 0; j < conditionParts.length - 1; j++) {
+        if (paramIndex >= currentInputParams.length) {
+          const totalPlaceholders = currentInputConditions.join(' AND ').split('?').length - 1
+          throw new ParameterMismatchError({
+            clause: clause,
+            query: currentInputConditions.join(' AND '),
+            expectedParams: totalPlaceholders,
+            receivedParams: currentInputParams.length,
+          })
+        }
+        const currentParam = currentInputParams[paramIndex++]
+
+        const isSubQuery =
+          (typeof currentParam === 'object' &&
+            currentParam !== null &&
+            ('tableName' in currentParam || 'getOptions' in currentParam) &&
+            !currentParam.hasOwnProperty('_raw')) ||
+          currentParam instanceof SelectBuilder
+
+        if (isSubQuery) {
+          const token = `__SUBQUERY_TOKEN_${subQueryTokenNextId++}__`
+          subQueryPlaceholders[token] =
+            currentParam instanceof SelectBuilder
+              ? currentParam.getOptions()
+              : 'getOptions' in currentParam && typeof currentParam.getOptions === 'function'
+                ? (currentParam.getOptions() as SelectAll)
+                : (currentParam as SelectAll)
+          builtCondition += token
+        } else {
+          builtCondition += '?'
+          if (currentParam !== undefined) {
+            collectedPrimitiveParams.push(currentParam)
+          }
+        }
+        builtCondition += conditionParts[j + 1] ?? ''
+      }
+      processedNewConditions.push(builtCondition)
+    }
+
+    if (paramIndex < currentInputParams.length) {
+      const totalPlaceholders = currentInputConditions.join(' AND ').split('?').length - 1
+      throw new ParameterMismatchError({
+        clause: clause,
+        query: currentInputConditions.join(' AND '),
+        expectedParams: totalPlaceholders,
+        receivedParams: currentInputParams.length,
+      })
+    }
+
+    return {
+      conditions: processedNewConditions,
+      params: collectedPrimitiveParams,
+      subQueryPlaceholders,
+      subQueryTokenNextId,
+    }
+  }
+}
+
+export class SelectBuilder<
+  Schema extends TableSchema = {},
+  GenericResultWrapper = unknown,
+  GenericResult = DefaultReturnObject,
+  IsAsync extends boolean = true,
+> extends WhereBuilder<SelectAll, SchemaAware<Schema, WhereObject<GenericResult>, WhereObject>> {
+  _debugger = false
+  _fetchAll: (params: SelectAll) => QueryWithExtra<GenericResultWrapper, any, IsAsync>
+  _fetchOne: (params: SelectOne) => QueryWithExtra<GenericResultWrapper, any, IsAsync>
+
+  constructor(
+    options: Partial<SelectAll & WhereBuilderOptions>,
+    fetchAll: (params: SelectAll) => QueryWithExtra<GenericResultWrapper, any, IsAsync>,
+    fetchOne: (params: SelectOne) => QueryWithExtra<GenericResultWrapper, any, IsAsync>
+  ) {
+    super()
+    this._options = options
+    this._fetchAll = fetchAll
+    this._fetchOne = fetchOne
+  }
+
+  protected _clone(options: Partial<SelectAll>): this {
+    return new SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync>(
+      options,
+      this._fetchAll,
+      this._fetchOne
+    ) as this
+  }
+
+  setDebugger(state: boolean): void {
+    this._debugger = state
+  }
+
+  tableName(tableName: SelectAll['tableName']): SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync> {
+    return new SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync>(
+      {
+        ...this._options,
+        tableName: tableName,
+      },
+      this._fetchAll,
+      this._fetchOne
+    )
+  }
+
+  fields(fields: SelectAll['fields']): SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync> {
+    return this._parseArray('fields', this._options.fields, fields)
+  }
+
+  /**
+   * Enable DISTINCT selection to remove duplicate rows from results.
+   *
+   * @param columns - Optional array of columns for DISTINCT ON (PostgreSQL only).
+   *                  If not provided, applies simple DISTINCT.
+   *
+   * @example
+   * // Simple DISTINCT
+   * qb.select('users').distinct().execute()
+   * // SELECT DISTINCT * FROM users
+   *
+   * @example
+   * // DISTINCT ON specific columns (PostgreSQL)
+   * qb.select('users').distinct(['department']).fields(['department', 'name']).execute()
+   * // SELECT DISTINCT ON (department) department, name FROM users
+   */
+  distinct(columns?: Array<string>): SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync> {
+    return new SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync>(
+      {
+        ...this._options,
+        distinct: columns ?? true,
+      },
+      this._fetchAll,
+      this._fetchOne
+    )
+  }
+
   join(join: SelectAll['join']): SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync> {
     const joins = Array.isArray(join) ? join : [join]
     const processedJoins = joins.map((j) => {
@@ -813,11 +972,8 @@ export class SelectBuilder<
 
   having(
     conditions: string | Array<string>,
-    params?: Primitive | Primitive[]
+    params?: Primitive | Primitive[] | DefaultObject
   ): SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync> {
-    const subQueryPlaceholders = this._options.subQueryPlaceholders ?? {}
-    let subQueryTokenNextId = this._options.subQueryTokenNextId ?? 0
-
     const existingConditions =
       this._options.having && typeof this._options.having === 'object' && 'conditions' in this._options.having
         ? (this._options.having.conditions as string[])
@@ -830,78 +986,16 @@ export class SelectBuilder<
         ? (this._options.having.params as Primitive[])
         : []
 
-    const currentInputConditions = Array.isArray(conditions) ? conditions : [conditions]
-    const currentInputParams = params === undefined ? [] : Array.isArray(params) ? params : [params]
-
-    const processedNewConditions: string[] = []
-    const collectedPrimitiveParams: Primitive[] = []
-    let paramIndex = 0
-
-    for (const conditionStr of currentInputConditions) {
-      if (!conditionStr.includes('?')) {
-        processedNewConditions.push(conditionStr)
-        continue
-      }
-
-      const conditionParts = conditionStr.split('?')
-      let builtCondition = conditionParts[0] ?? ''
-
-      for (let j = 0; j < conditionParts.length - 1; j++) {
-        if (paramIndex >= currentInputParams.length) {
-          const totalPlaceholders = currentInputConditions.join(' AND ').split('?').length - 1
-          throw new ParameterMismatchError({
-            clause: 'HAVING',
-            query: currentInputConditions.join(' AND '),
-            expectedParams: totalPlaceholders,
-            receivedParams: currentInputParams.length,
-          })
-        }
-        const currentParam = currentInputParams[paramIndex++]
-        const isSubQuery =
-          (typeof currentParam === 'object' &&
-            currentParam !== null &&
-            ('tableName' in currentParam || 'getOptions' in currentParam) &&
-            !currentParam.hasOwnProperty('_raw')) ||
-          currentParam instanceof SelectBuilder
-
-        if (isSubQuery) {
-          const token = `__SUBQUERY_TOKEN_${subQueryTokenNextId++}__`
-          subQueryPlaceholders[token] =
-            currentParam instanceof SelectBuilder
-              ? currentParam.getOptions()
-              : 'getOptions' in currentParam && typeof currentParam.getOptions === 'function'
-                ? (currentParam.getOptions() as SelectAll)
-                : (currentParam as SelectAll)
-          builtCondition += token
-        } else {
-          builtCondition += '?'
-          if (currentParam !== undefined) {
-            collectedPrimitiveParams.push(currentParam)
-          }
-        }
-        builtCondition += conditionParts[j + 1] ?? ''
-      }
-      processedNewConditions.push(builtCondition)
-    }
-
-    if (paramIndex < currentInputParams.length) {
-      const totalPlaceholders = currentInputConditions.join(' AND ').split('?').length - 1
-      throw new ParameterMismatchError({
-        clause: 'HAVING',
-        query: currentInputConditions.join(' AND '),
-        expectedParams: totalPlaceholders,
-        receivedParams: currentInputParams.length,
-      })
-    }
+    const processed = this._processConditions('HAVING', conditions, params)
 
     return new SelectBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync>(
       {
         ...this._options,
-        subQueryPlaceholders,
-        subQueryTokenNextId,
+        subQueryPlaceholders: processed.subQueryPlaceholders,
+        subQueryTokenNextId: processed.subQueryTokenNextId,
         having: {
-          conditions: existingConditions.concat(processedNewConditions),
-          params: existingParams.concat(collectedPrimitiveParams),
+          conditions: existingConditions.concat(processed.conditions),
+          params: existingParams.concat(processed.params),
         },
       },
       this._fetchAll,
@@ -963,10 +1057,7 @@ export class SelectBuilder<
 
   getQueryAll<P extends SelectExecuteOptions = SelectExecuteOptions>(
     options?: P
-  ): Query<
-    ArrayResult<GenericResultWrapper, GenericResult, IsAsync, P extends { lazy: true } ? true : false>,
-    IsAsync
-  > {
+  ): Query<ArrayResult<GenericResultWrapper, GenericResult, IsAsync, IsLazy<P>>, IsAsync> {
     return this._fetchAll({
       ...this._options,
       ...options,
@@ -979,7 +1070,7 @@ export class SelectBuilder<
 
   execute<P extends SelectExecuteOptions = SelectExecuteOptions>(
     options?: P
-  ): ArrayResult<GenericResultWrapper, GenericResult, IsAsync, P extends { lazy: true } ? true : false> {
+  ): ArrayResult<GenericResultWrapper, GenericResult, IsAsync, IsLazy<P>> {
     return this._fetchAll({
       ...this._options,
       ...options,
@@ -988,7 +1079,7 @@ export class SelectBuilder<
 
   all<P extends SelectExecuteOptions = SelectExecuteOptions>(
     options?: P
-  ): ArrayResult<GenericResultWrapper, GenericResult, IsAsync, P extends { lazy: true } ? true : false> {
+  ): ArrayResult<GenericResultWrapper, GenericResult, IsAsync, IsLazy<P>> {
     return this._fetchAll({
       ...this._options,
       ...options,
@@ -1146,3 +1237,336 @@ export class SelectBuilder<
     return explainQuery.execute()
   }
 }
+
+export class InsertBuilder<
+  Schema extends TableSchema = {},
+  GenericResultWrapper = unknown,
+  GenericResult = DefaultReturnObject,
+  IsAsync extends boolean = true,
+  IsMultiple extends boolean = false,
+> {
+  _options: Partial<Insert> = {}
+  _insert: (params: Insert) => Query<any, IsAsync>
+
+  constructor(options: Partial<Insert>, insert: (params: Insert) => Query<any, IsAsync>) {
+    this._options = options
+    this._insert = insert
+  }
+
+  /**
+   * Set the row(s) to insert. Passing an array produces a multi-row insert.
+   * Calling `values()` again replaces the previously set rows.
+   *
+   * @example
+   * qb.insertInto('users').values({ name: 'John', email: 'john@example.com' }).execute()
+   *
+   * @example
+   * qb.insertInto('users').values([{ name: 'John' }, { name: 'Jane' }]).returning('*').execute()
+   */
+  values(
+    data: Array<SchemaAware<Schema, Partial<GenericResult>, DefaultObject>>
+  ): InsertBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync, true>
+  values(
+    data: SchemaAware<Schema, Partial<GenericResult>, DefaultObject>
+  ): InsertBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync, false>
+  values(data: any): InsertBuilder<any, any, any, IsAsync, any> {
+    return new InsertBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync, any>(
+      {
+        ...this._options,
+        data: data,
+      },
+      this._insert
+    )
+  }
+
+  /**
+   * Define how conflicts are resolved, either with a conflict type (`INSERT OR IGNORE`)
+   * or with an upsert definition (`ON CONFLICT (...) DO UPDATE`).
+   *
+   * @example
+   * qb.insertInto('users').values({ email, name }).onConflict(ConflictTypes.IGNORE).execute()
+   *
+   * @example
+   * qb.insertInto('users')
+   *   .values({ email, name })
+   *   .onConflict({ column: 'email', data: { name: new Raw('excluded.name') } })
+   *   .execute()
+   */
+  onConflict(
+    onConflict: string | ConflictTypes | ConflictUpsert
+  ): InsertBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync, IsMultiple> {
+    return new InsertBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync, IsMultiple>(
+      {
+        ...this._options,
+        onConflict: onConflict,
+      },
+      this._insert
+    )
+  }
+
+  returning(
+    returning: string | Array<string>
+  ): InsertBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync, IsMultiple> {
+    return new InsertBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync, IsMultiple>(
+      {
+        ...this._options,
+        returning: returning,
+      },
+      this._insert
+    )
+  }
+
+  getQuery(): Query<
+    IsMultiple extends true
+      ? ArrayResult<GenericResultWrapper, GenericResult, IsAsync>
+      : OneResult<GenericResultWrapper, GenericResult>,
+    IsAsync
+  > {
+    if (!this._options.data) {
+      throw new MissingDataError('INSERT', 'data')
+    }
+
+    return this._insert(this._options as Insert)
+  }
+
+  execute(): IsMultiple extends true
+    ? ArrayResult<GenericResultWrapper, GenericResult, IsAsync>
+    : MaybeAsync<IsAsync, OneResult<GenericResultWrapper, GenericResult>> {
+    return this.getQuery().execute() as any
+  }
+
+  getOptions(): Insert {
+    return this._options as Insert
+  }
+
+  /**
+   * Returns the SQL query string and parameters without executing.
+   *
+   * @example
+   * const { sql, params } = qb.insertInto('users').values({ name: 'John' }).toSQL()
+   * // sql: "INSERT INTO users (name) VALUES (?1)"
+   * // params: ['John']
+   */
+  toSQL(): { sql: string; params: Primitive[] } {
+    return this.getQuery().toSQL()
+  }
+
+  /**
+   * Returns the SQL query with parameters interpolated for debugging purposes.
+   * WARNING: This should NEVER be used to execute queries as it bypasses parameterization.
+   */
+  toDebugSQL(): string {
+    return this.getQuery().toDebugSQL()
+  }
+}
+
+export class UpdateBuilder<
+  Schema extends TableSchema = {},
+  GenericResultWrapper = unknown,
+  GenericResult = DefaultReturnObject,
+  IsAsync extends boolean = true,
+> extends WhereBuilder<Update, SchemaAware<Schema, WhereObject<GenericResult>, WhereObject>> {
+  _update: (params: Update) => Query<any, IsAsync>
+  protected readonly _statement = 'UPDATE'
+
+  constructor(options: Partial<Update & WhereBuilderOptions>, update: (params: Update) => Query<any, IsAsync>) {
+    super()
+    this._options = options
+    this._update = update
+  }
+
+  protected _clone(options: Partial<Update>): this {
+    return new UpdateBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync>(options, this._update) as this
+  }
+
+  /**
+   * Set the columns to update. Calling `set()` again merges the new columns with the previous ones.
+   *
+   * @example
+   * qb.updateTable('users')
+   *   .set({ status: 'inactive', updated_at: new Raw('CURRENT_TIMESTAMP') })
+   *   .whereIn('id', [1, 2, 3])
+   *   .execute()
+   * // UPDATE users SET status = ?4, updated_at = CURRENT_TIMESTAMP WHERE (id) IN (VALUES (?1), (?2), (?3))
+   */
+  set(
+    data: SchemaAware<Schema, Partial<GenericResult>, DefaultObject>
+  ): UpdateBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync> {
+    return this._clone({
+      ...this._options,
+      data: {
+        ...this._options.data,
+        ...(data as DefaultObject),
+      },
+    })
+  }
+
+  onConflict(onConflict: string | ConflictTypes): UpdateBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync> {
+    return this._clone({
+      ...this._options,
+      onConflict: onConflict,
+    })
+  }
+
+  returning(returning: string | Array<string>): UpdateBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync> {
+    return this._clone({
+      ...this._options,
+      returning: returning,
+    })
+  }
+
+  getQuery(): Query<ArrayResult<GenericResultWrapper, GenericResult, IsAsync>, IsAsync> {
+    if (!this._options.data || Object.keys(this._options.data).length === 0) {
+      throw new MissingDataError('UPDATE', 'data')
+    }
+
+    return this._update(this._options as Update)
+  }
+
+  execute(): ArrayResult<GenericResultWrapper, GenericResult, IsAsync> {
+    return this.getQuery().execute() as any
+  }
+
+  getOptions(): Update {
+    return this._options as Update
+  }
+
+  /**
+   * Returns the SQL query string and parameters without executing.
+   *
+   * @example
+   * const { sql, params } = qb.updateTable('users').set({ name: 'John' }).where('id = ?', 1).toSQL()
+   * // sql: "UPDATE users SET name = ?2 WHERE id = ?1"
+   * // params: [1, 'John']
+   */
+  toSQL(): { sql: string; params: Primitive[] } {
+    return this.getQuery().toSQL()
+  }
+
+  /**
+   * Returns the SQL query with parameters interpolated for debugging purposes.
+   * WARNING: This should NEVER be used to execute queries as it bypasses parameterization.
+   */
+  toDebugSQL(): string {
+    return this.getQuery().toDebugSQL()
+  }
+}
+
+export class DeleteBuilder<
+  Schema extends TableSchema = {},
+  GenericResultWrapper = unknown,
+  GenericResult = DefaultReturnObject,
+  IsAsync extends boolean = true,
+> extends WhereBuilder<Delete, SchemaAware<Schema, WhereObject<GenericResult>, WhereObject>> {
+  _delete: (params: Delete) => Query<any, IsAsync>
+  _unconditional: boolean
+  protected readonly _statement = 'DELETE'
+
+  constructor(
+    options: Partial<Delete & WhereBuilderOptions>,
+    deleteFn: (params: Delete) => Query<any, IsAsync>,
+    unconditional = false
+  ) {
+    super()
+    this._options = options
+    this._delete = deleteFn
+    this._unconditional = unconditional
+  }
+
+  protected _clone(options: Partial<Delete>): this {
+    return new DeleteBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync>(
+      options,
+      this._delete,
+      this._unconditional
+    ) as this
+  }
+
+  /**
+   * Explicitly allow this query to run without WHERE conditions, deleting every row in the table.
+   * Without this opt-in, building a DELETE with no conditions throws a `QueryBuilderError`.
+   *
+   * @example
+   * qb.deleteFrom('sessions').all().execute()
+   * // DELETE FROM sessions
+   */
+  all(): DeleteBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync> {
+    return new DeleteBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync>(this._options, this._delete, true)
+  }
+
+  orderBy(orderBy: Delete['orderBy']): DeleteBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync> {
+    const existing = this._options.orderBy
+    const value = Array.isArray(orderBy) ? orderBy : [orderBy]
+
+    return this._clone({
+      ...this._options,
+      orderBy: (Array.isArray(existing) ? [...existing, ...value] : value) as Array<string>,
+    })
+  }
+
+  limit(limit: Delete['limit']): DeleteBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync> {
+    return this._clone({
+      ...this._options,
+      limit: limit,
+    })
+  }
+
+  offset(offset: Delete['offset']): DeleteBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync> {
+    return this._clone({
+      ...this._options,
+      offset: offset,
+    })
+  }
+
+  returning(returning: string | Array<string>): DeleteBuilder<Schema, GenericResultWrapper, GenericResult, IsAsync> {
+    return this._clone({
+      ...this._options,
+      returning: returning,
+    })
+  }
+
+  getQuery(): Query<ArrayResult<GenericResultWrapper, GenericResult, IsAsync>, IsAsync> {
+    const where = this._options.where
+    const hasConditions =
+      typeof where === 'object' && !Array.isArray(where)
+        ? isWhereObject(where)
+          ? compileWhereObject(where, undefined, 'DELETE').conditions.length > 0
+          : where.conditions.length > 0
+        : where !== undefined && where.length > 0
+
+    if (!hasConditions && !this._unconditional) {
+      throw new QueryBuilderError(`Refusing to DELETE from ${this._options.tableName} without WHERE conditions`, {
+        hint: 'Add a where() condition, or call .all() to explicitly delete every row in the table',
+      })
+    }
+
+    return this._delete(this._options as Delete)
+  }
+
+  execute(): ArrayResult<GenericResultWrapper, GenericResult, IsAsync> {
+    return this.getQuery().execute() as any
+  }
+
+  getOptions(): Delete {
+    return this._options as Delete
+  }
+
+  /**
+   * Returns the SQL query string and parameters without executing.
+   *
+   * @example
+   * const { sql, params } = qb.deleteFrom('sessions').where('expires_at < ?', now).toSQL()
+   * // sql: "DELETE FROM sessions WHERE expires_at < ?"
+   * // params: [now]
+   */
+  toSQL(): { sql: string; params: Primitive[] } {
+    return this.getQuery().toSQL()
+  }
+
+  /**
+   * Returns the SQL query with parameters interpolated for debugging purposes.
+   * WARNING: This should NEVER be used to execute queries as it bypasses parameterization.
+   */
+  toDebugSQL(): string {
+    return this.getQuery().toDebugSQL()
+  }
+}
@@ -0,0 +1,325 @@
+import { InvalidConfigurationError } from './errors'
+import { Dialect } from './interfaces'
+import type { Migration } from './migrations'
+import { Column, TableDefinition } from './table'
+import { Raw } from './tools'
+
+/**
+ * Column of a table as reported by the database.
+ * `primaryKey` and `unique` are undefined when the database introspection does not report them.
+ */
+export type LiveColumn = {
+  name: string
+  type: string
+  notNull: boolean
+  default: string | null
+  primaryKey?: boolean
+  unique?: boolean
+}
+
+// Column of another table with a foreign key to a table, as reported by the database
+export type LiveReference = {
+  table: string
+  column: string
+  onDelete: string
+}
+
+export type LiveTable = {
+  name: string
+  columns: Array<LiveColumn>
+  // Names of all the indexes of the table
+  indexes: Array<string>
+  // Foreign keys of the other tables referencing the table, undefined when the database introspection does not report them
+  referencedBy?: Array<LiveReference>
+}
+
+export type SchemaDiffOptions = {
+  // Prefix of the generated migration names, defaults to the current timestamp (YYYYMMDDHHMMSS)
+  prefix?: string
+  // Drop the live columns missing from the definitions, and their data. Without it, such columns throw
+  dropColumns?: boolean
+  // How SQLite table rebuilds turn off foreign key enforcement while the table is replaced: 'off' runs
+  // PRAGMA foreign_keys = OFF, which has no effect inside a transaction, 'defer' runs PRAGMA defer_foreign_keys = ON for
+  // migrations applied in a transaction, like D1 and Durable Objects. Defaults to 'off'
+  foreignKeys?: 'off' | 'defer'
+}
+
+// Rows of PRAGMA table_info, index_list and index_info
+export type SQLiteTableInfo = { name: string; type: string; notnull: number; dflt_value: string | null; pk: number }
+export type SQLiteIndexList = { name: string; unique: number; origin: string }
+export type SQLiteIndexInfo = { name: string }
+export type SQLiteReference = { table: string; from: string; on_delete: string }
+
+// Foreign keys of the other tables referencing a table, read from every table of the schema. Both placeholders are
+// bound to the name of the referenced table. The internal _cf_ tables of D1 and Durable Objects cannot be read
+export const SQLITE_REFERENCES_QUERY = `SELECT m.name AS "table", f."from" AS "from", f.on_delete AS on_delete
+  FROM sqlite_master AS m JOIN pragma_foreign_key_list(m.name) AS f
+  WHERE m.type = 'table' AND m.name NOT LIKE '\\_cf\\_%' ESCAPE '\\' AND f."table" = ? AND m.name <> ?`
+
+/**
+ * Build the live table of a SQLite table from its PRAGMA rows.
+ * `uniqueColumns` are the columns with a single column UNIQUE constraint, `references` the rows of
+ * `SQLITE_REFERENCES_QUERY`.
+ */
+export function sqliteLiveTable(
+  name: string,
+  columns: Array<SQLiteTableInfo>,
+  indexes: Array<SQLiteIndexList>,
+  uniqueColumns: Array<string>,
+  references: Array<SQLiteReference>
+): LiveTable {
+  return {
+    name,
+    columns: columns.map((column) => ({
+      name: column.name,
+      type: column.type,
+      notNull: column.notnull === 1 || column.pk > 0,
+      default: column.dflt_value,
+      primaryKey: column.pk > 0,
+      unique: uniqueColumns.includes(column.name),
+    })),
+    indexes: indexes.map((index) => index.name),
+    referencedBy: references.map((reference) => ({
+      table: reference.table,
+      column: reference.from,
+      onDelete: reference.on_delete,
+    })),
+  }
+}
+
+/**
+ * Compare table definitions with the live tables of the database, returning the migrations that bring the database
+ * to the definitions. Tables missing from the database are created, existing tables get one migration with all
+ * their changes. Identifiers are always quoted, so tables named after reserved words migrate correctly.
+ *
+ * Dialects without `supportsAlterColumn` (SQLite) only add columns with ALTER TABLE, any other change rebuilds the
+ * table: a new table is created, the rows of the kept columns are copied and the old table is replaced, with foreign
+ * key enforcement turned off or deferred. The migration then fails when pragma_foreign_key_check reports violations.
+ * Live columns missing from the definitions are only dropped with the `dropColumns` option, an
+ * `InvalidConfigurationError` is thrown otherwise.
+ *
+ * @param tables - The declared tables
+ * @param live - The live tables by name, null when the table does not exist
+ */
+export function diffSchema(
+  tables: Array<TableDefinition>,
+  live: Record<string, LiveTable | null>,
+  dialect: Dialect,
+  options?: SchemaDiffOptions
+): Array<Migration> {
+  const prefix = options?.prefix ?? new Date().toISOString().replace(/\D/g, '').slice(0, 14)
+  const migrations: Array<Migration> = []
+
+  for (const table of tables) {
+    const liveTable = live[table.name]
+
+    if (!liveTable) {
+      migrations.push({
+        name: `${prefix}_create_${table.name}_table`,
+        sql: joinStatements([
+          createTableStatement(table, dialect, table.name),
+          ...table.indexesSQL((name) => dialect.quoteIdentifier(name)),
+        ]),
+      })
+      continue
+    }
+
+    const dropped = liveTable.columns.filter((column) => !(column.name in table.columns))
+    if (dropped.length > 0 && !options?.dropColumns) {
+      throw new InvalidConfigurationError(
+        `Table ${table.name} has columns missing from its definition: ${dropped.map((column) => column.name).join(', ')}`,
+        'Declare the columns, or pass { dropColumns: true } to drop them along with their data'
+      )
+    }
+
+    const statements = dialect.supportsAlterColumn
+      ? alterTableStatements(table, liveTable, dialect)
+      : alterOrRebuildTableStatements(table, liveTable, dialect, tables, options?.foreignKeys ?? 'off')
+    if (statements.length > 0) {
+      migrations.push({ name: `${prefix}_alter_${table.name}_table`, sql: joinStatements(statements) })
+    }
+  }
+
+  return migrations
+}
+
+function joinStatements(statements: Array<string>): string {
+  return statements.map((statement) => `${statement};`).join('\n')
+}
+
+function createTableStatement(table: TableDefinition, dialect: Dialect, name: string): string {
+  return `CREATE TABLE ${dialect.quoteIdentifier(name)} (${table.columnsSQL(dialect, (column) => dialect.quoteIdentifier(column))})`
+}
+
+function missingIndexStatements(table: TableDefinition, live: LiveTable, dialect: Dialect): Array<string> {
+  return table
+    .indexesSQL((name) => dialect.quoteIdentifier(name))
+    .filter((_, index) => !live.indexes.includes(table.indexes[index]!.name))
+}
+
+// Reported defaults are normalized, as PostgreSQL adds type casts like 'user'::text
+function normalizeDefault(value: string | null | undefined): string | null {
+  if (value === null || value === undefined) return null
+  return value
+    .trim()
+    .replace(/::[A-Za-z ]+(\[\])?$/, '')
+    .replace(/^\(([^()]*)\)$/, '$1')
+}
+
+function columnType(column: Column<unknown, boolean>, dialect: Dialect): string {
+  // Auto increment types (like SERIAL) are reported as their underlying type
+  return dialect.columnType(column.definition.type).toUpperCase()
+}
+
+function columnChanges(column: Column<unknown, boolean>, live: LiveColumn, dialect: Dialect) {
+  const { definition } = column
+
+  return {
+    type: columnType(column, dialect) !== live.type.toUpperCase(),
+    notNull: (definition.notNull || definition.primaryKey) !== live.notNull,
+    default:
+      !definition.autoIncrement && normalizeDefault(column.defaultSQL(dialect)) !== normalizeDefault(live.default),
+    constraints:
+      (live.primaryKey !== undefined && definition.primaryKey !== live.primaryKey) ||
+      (live.unique !== undefined && !definition.primaryKey && definition.unique !== live.unique),
+  }
+}
+
+function alterTableStatements(table: TableDefinition, live: LiveTable, dialect: Dialect): Array<string> {
+  const quote = (name: string) => dialect.quoteIdentifier(name)
+  const alterTable = `ALTER TABLE ${quote(table.name)}`
+  const liveColumns = new Map(live.columns.map((column) => [column.name, column]))
+  const statements: Array<string> = []
+
+  for (const column of live.columns) {
+    if (!(column.name in table.columns)) statements.push(`${alterTable} DROP COLUMN ${quote(column.name)}`)
+  }
+
+  for (const [name, column] of Object.entries(table.columns)) {
+    const liveColumn = liveColumns.get(name)
+    if (!liveColumn) {
+      statements.push(`${alterTable} ADD COLUMN ${quote(name)} ${column.toSQL(dialect, quote)}`)
+      continue
+    }
+
+    const changes = columnChanges(column, liveColumn, dialect)
+    const alterColumn = `${alterTable} ALTER COLUMN ${quote(name)}`
+    if (changes.type) statements.push(`${alterColumn} TYPE ${columnType(column, dialect)}`)
+    if (changes.notNull) {
+      const notNull = column.definition.notNull || column.definition.primaryKey
+      statements.push(`${alterColumn} ${notNull ? 'SET' : 'DROP'} NOT NULL`)
+    }
+    if (changes.default) {
+      const defaultSQL = column.defaultSQL(dialect)
+      statements.push(
+        defaultSQL === undefined ? `${alterColumn} DROP DEFAULT` : `${alterColumn} SET DEFAULT ${defaultSQL}`
+      )
+    }
+  }
+
+  return [...statements, ...missingIndexStatements(table, live, dialect)]
+}
+
+// SQLite can only add columns that are not PRIMARY KEY or UNIQUE, and NOT NULL columns need a constant default
+function canAddColumn(column: Column<unknown, boolean>): boolean {
+  const { definition } = column
+  if (definition.primaryKey || definition.unique || definition.default instanceof Raw) return false
+  return !definition.notNull || (definition.default !== undefined && definition.default !== null)
+}
+
+function alterOrRebuildTableStatements(
+  table: TableDefinition,
+  live: LiveTable,
+  dialect: Dialect,
+  tables: Array<TableDefinition>,
+  foreignKeys: 'off' | 'defer'
+): Array<string> {
+  const liveColumns = new Map(live.columns.map((column) => [column.name, column]))
+  const added = Object.entries(table.columns).filter(([name]) => !liveColumns.has(name))
+
+  const rebuild =
+    live.columns.some((column) => !(column.name in table.columns)) ||
+    added.some(([, column]) => !canAddColumn(column)) ||
+    Object.entries(table.columns).some(([name, column]) => {
+      const liveColumn = liveColumns.get(name)
+      return liveColumn !== undefined && Object.values(columnChanges(column, liveColumn, dialect)).some(Boolean)
+    })
+
+  if (rebuild) {
+    if (foreignKeys === 'defer') checkDeferredRebuild(table, live, tables)
+    return rebuildTableStatements(table, live, dialect, foreignKeys)
+  }
+
+  return [
+    ...added.map(
+      ([name, column]) =>
+        `ALTER TABLE ${dialect.quoteIdentifier(table.name)} ADD COLUMN ${dialect.quoteIdentifier(name)} ${column.toSQL(dialect, (name) => dialect.quoteIdentifier(name))}`
+    ),
+    ...missingIndexStatements(table, live, dialect),
+  ]
+}
+
+// Deferring foreign keys does not stop dropping a table from running the ON DELETE actions of the tables referencing it,
+// which would delete or update their rows. Both the live tables and the declared ones are checked, as the live
+// references also cover tables missing from the definitions
+function checkDeferredRebuild(table: TableDefinition, live: LiveTable, tables: Array<TableDefinition>): void {
+  const declared = tables.flatMap((other) =>
+    Object.entries(other.columns)
+      .filter(([, column]) => {
+        const references = column.definition.references
+        return references?.table === table.name && (references.onDelete ?? 'NO ACTION') !== 'NO ACTION'
+      })
+      .map(([name]) => `${other.name}.${name}`)
+  )
+  const liveReferences = (live.referencedBy ?? [])
+    .filter((reference) => reference.onDelete.toUpperCase() !== 'NO ACTION')
+    .map((reference) => `${reference.table}.${reference.column}`)
+  const referencing = [...new Set([...liveReferences, ...declared])]
+
+  if (referencing.length > 0) {
+    throw new InvalidConfigurationError(
+      `Rebuilding table ${table.name} would run the ON DELETE actions of ${referencing.join(', ')}`,
+      'Write this migration by hand, foreign keys cannot be turned off in the transaction the migrations run in'
+    )
+  }
+}
+
+function rebuildTableStatements(
+  table: TableDefinition,
+  live: LiveTable,
+  dialect: Dialect,
+  foreignKeys: 'off' | 'defer'
+): Array<string> {
+  const quote = (name: string) => dialect.quoteIdentifier(name)
+  const rebuiltName = `${table.name}__new`
+  const keptColumns = Object.entries(table.columns).filter(([name]) =>
+    live.columns.some((column) => column.name === name)
+  )
+  const insertColumns = keptColumns.map(([name]) => quote(name)).join(', ')
+  // Columns made NOT NULL take their default in the rows where they are null
+  const selectColumns = keptColumns
+    .map(([name, column]) => {
+      const defaultSQL = column.defaultSQL(dialect)
+      return column.definition.notNull && defaultSQL !== undefined
+        ? `COALESCE(${quote(name)}, ${defaultSQL})`
+        : quote(name)
+    })
+    .join(', ')
+
+  return [
+    // Dropping the table would otherwise fail, or break the references of the tables pointing to it
+    foreignKeys === 'defer' ? 'PRAGMA defer_foreign_keys = ON' : 'PRAGMA foreign_keys = OFF',
+    createTableStatement(table, dialect, rebuiltName),
+    ...(keptColumns.length > 0
+      ? [`INSERT INTO ${quote(rebuiltName)} (${insertColumns}) SELECT ${selectColumns} FROM ${quote(table.name)}`]
+      : []),
+    `DROP TABLE ${quote(table.name)}`,
+    `ALTER TABLE ${quote(rebuiltName)} RENAME TO ${quote(table.name)}`,
+    // Dropping the table dropped its indexes
+    ...table.indexesSQL(quote),
+    // PRAGMA foreign_key_check only reports the violations, an invalid JSON path makes them abort the migration
+    `SELECT CASE WHEN EXISTS (SELECT 1 FROM pragma_foreign_key_check) THEN json_extract('{}', ${dialect.literal(`foreign key violations after rebuilding table ${table.name}`)}) END`,
+    // Turning deferred foreign keys off also clears the violations counted when the table was dropped
+    foreignKeys === 'defer' ? 'PRAGMA defer_foreign_keys = OFF' : 'PRAGMA foreign_keys = ON',
+  ]
+}
@@ -0,0 +1,239 @@
+import { sqliteDialect } from './dialects'
+import { ColumnType, Dialect, Primitive } from './interfaces'
+import { Raw } from './tools'
+
+/**
+ * Runtime schema definition, declaring tables once for both the TypeScript row types and the CREATE TABLE statements.
+ *
+ * @example
+ * ```typescript
+ * const users = defineTable('users', {
+ *   id: integer().primaryKey({ autoIncrement: true }),
+ *   email: text().notNull().unique(),
+ *   name: text(),
+ * })
+ * const posts = defineTable('posts', {
+ *   id: integer().primaryKey({ autoIncrement: true }),
+ *   user_id: integer().notNull().references('users', 'id', { onDelete: 'CASCADE' }),
+ *   title: text().notNull(),
+ * }, { indexes: [{ columns: ['user_id'] }] })
+ *
+ * const schema = defineSchema(users, posts)
+ * const qb = new D1QB<InferSchema<typeof schema>>(env.DB)
+ *
+ * await qb.createTable({ schema: users, ifNotExists: true }).execute()
+ * ```
+ */
+
+export type ReferentialAction = 'CASCADE' | 'RESTRICT' | 'SET NULL' | 'SET DEFAULT' | 'NO ACTION'
+
+export type ColumnDefinition = {
+  type: ColumnType
+  notNull: boolean
+  primaryKey: boolean
+  autoIncrement: boolean
+  unique: boolean
+  default?: Primitive | Raw
+  references?: {
+    table: string
+    column: string
+    onDelete?: ReferentialAction
+    onUpdate?: ReferentialAction
+  }
+}
+
+/**
+ * A column of a table definition, created with `integer()`, `real()`, `text()` or `blob()`.
+ * Every method returns a new column, `Type` and `NotNull` track the TypeScript type of the column values.
+ */
+export class Column<Type = unknown, NotNull extends boolean = false> {
+  // Only used for type inference, there is no value at runtime
+  declare readonly _type: Type
+  declare readonly _notNull: NotNull
+  public readonly definition: ColumnDefinition
+
+  constructor(definition: ColumnDefinition) {
+    this.definition = definition
+  }
+
+  notNull(): Column<Type, true> {
+    return new Column({ ...this.definition, notNull: true })
+  }
+
+  primaryKey(options?: { autoIncrement?: boolean }): Column<Type, true> {
+    return new Column({ ...this.definition, primaryKey: true, autoIncrement: options?.autoIncrement ?? false })
+  }
+
+  unique(): Column<Type, NotNull> {
+    return new Column({ ...this.definition, unique: true })
+  }
+
+  default(value: Type | Raw): Column<Type, NotNull> {
+    return new Column({ ...this.definition, default: value as Primitive | Raw })
+  }
+
+  references(
+    table: string,
+    column = 'id',
+    options?: { onDelete?: ReferentialAction; onUpdate?: ReferentialAction }
+  ): Column<Type, NotNull> {
+    return new Column({ ...this.definition, references: { table, column, ...options } })
+  }
+
+  /**
+   * Column definition used in CREATE TABLE, without the column name.
+   *
+   * @param dialect - Dialect of the column type and constraints, defaults to sqlite
+   * @param identifier - Places the referenced table and column names in the SQL, used to quote them. Column names are
+   * passed with their table
+   */
+  toSQL(
+    dialect: Dialect = sqliteDialect,
+    identifier: (name: string, table?: string) => string = (name) => name
+  ): string {
+    const { definition } = this
+    const parts = [dialect.columnType(definition.type, definition.autoIncrement)]
+
+    if (definition.primaryKey) parts.push(dialect.primaryKey(definition.autoIncrement))
+    if (definition.notNull && !definition.primaryKey) parts.push('NOT NULL')
+    if (definition.unique) parts.push('UNIQUE')
+    const defaultSQL = this.defaultSQL(dialect)
+    if (defaultSQL !== undefined) parts.push(`DEFAULT ${defaultSQL}`)
+    if (definition.references) {
+      const { table, column, onDelete, onUpdate } = definition.references
+      parts.push(`REFERENCES ${identifier(table)}(${identifier(column, table)})`)
+      if (onDelete) parts.push(`ON DELETE ${onDelete}`)
+      if (onUpdate) parts.push(`ON UPDATE ${onUpdate}`)
+    }
+
+    return parts.join(' ')
+  }
+
+  /**
+   * Default value of the column as an SQL expression, undefined when the column has no default.
+   */
+  defaultSQL(dialect: Dialect = sqliteDialect): string | undefined {
+    const value = this.definition.default
+    if (value === undefined) return undefined
+    return value instanceof Raw ? value.content : dialect.literal(value)
+  }
+}
+
+function column<Type>(type: ColumnType): Column<Type> {
+  return new Column<Type>({ type, notNull: false, primaryKey: false, autoIncrement: false, unique: false })
+}
+
+export function integer(): Column<number> {
+  return column<number>('integer')
+}
+
+export function real(): Column<number> {
+  return column<number>('real')
+}
+
+export function text<Type extends string = string>(): Column<Type> {
+  return column<Type>('text')
+}
+
+export function blob(): Column<ArrayBuffer> {
+  return column<ArrayBuffer>('blob')
+}
+
+export type Columns = Record<string, Column<unknown, boolean>>
+
+export type IndexDefinition<ColumnName extends string = string> = {
+  columns: Array<ColumnName>
+  // Defaults to <table>_<columns>_idx
+  name?: string
+  unique?: boolean
+}
+
+export type TableOptions<ColumnName extends string = string> = {
+  indexes?: Array<IndexDefinition<ColumnName>>
+}
+
+export class TableDefinition<Name extends string = string, TableColumns extends Columns = Columns> {
+  public readonly name: Name
+  public readonly columns: TableColumns
+  public readonly indexes: Array<Required<IndexDefinition>>
+
+  constructor(name: Name, columns: TableColumns, options?: TableOptions<keyof TableColumns & string>) {
+    this.name = name
+    this.columns = columns
+    this.indexes = (options?.indexes ?? []).map((index) => ({
+      columns: index.columns,
+      name: index.name ?? `${name}_${index.columns.join('_')}_idx`,
+      unique: index.unique ?? false,
+    }))
+  }
+
+  /**
+   * Column definitions of the table, as used in the parentheses of CREATE TABLE.
+   *
+   * @param dialect - Dialect of the column types and constraints, defaults to sqlite
+   * @param identifier - Places the column and referenced table names in the SQL, used to quote them. Column names are
+   * passed with their table
+   */
+  columnsSQL(
+    dialect: Dialect = sqliteDialect,
+    identifier: (name: string, table?: string) => string = (name) => name
+  ): string {
+    return Object.entries(this.columns)
+      .map(([name, column]) => `${identifier(name, this.name)} ${column.toSQL(dialect, identifier)}`)
+      .join(', ')
+  }
+
+  /**
+   * Full CREATE TABLE statement of the table.
+   */
+  createTableSQL(options?: { dialect?: Dialect; ifNotExists?: boolean }): string {
+    return `CREATE TABLE ${options?.ifNotExists ? 'IF NOT EXISTS ' : ''}${this.name} (${this.columnsSQL(options?.dialect)})`
+  }
+
+  /**
+   * CREATE INDEX statements of the indexes of the table.
+   *
+   * @param identifier - Places the table, index and column names in the SQL, used to quote them
+   */
+  indexesSQL(identifier: (name: string) => string = (name) => name): Array<string> {
+    return this.indexes.map(
+      (index) =>
+        `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX ${identifier(index.name)} ON ${identifier(this.name)} (${index.columns.map(identifier).join(', ')})`
+    )
+  }
+}
+
+export function defineTable<Name extends string, TableColumns extends Columns>(
+  name: Name,
+  columns: TableColumns,
+  options?: TableOptions<keyof TableColumns & string>
+): TableDefinition<Name, TableColumns> {
+  return new TableDefinition(name, columns, options)
+}
+
+/**
+ * Group table definitions by name, the result can be passed to `InferSchema` to type a query builder.
+ */
+export function defineSchema<Tables extends Array<TableDefinition<string, any>>>(
+  ...tables: Tables
+): { [Table in Tables[number] as Table['name']]: Table } {
+  return Object.fromEntries(tables.map((table) => [table.name, table])) as any
+}
+
+/**
+ * Row type of a table definition, columns that are not NOT NULL or PRIMARY KEY can be null.
+ */
+export type InferRow<Table extends TableDefinition<string, any>> = {
+  [Key in keyof Table['columns']]: Table['columns'][Key] extends Column<infer Type, infer NotNull>
+    ? NotNull extends true
+      ? Type
+      : Type | null
+    : never
+}
+
+/**
+ * Schema type of the tables returned by `defineSchema`, for `D1QB<Schema>`, `DOQB<Schema>` and `PGQB<Schema>`.
+ */
+export type InferSchema<Tables extends Record<string, TableDefinition<string, any>>> = {
+  [Name in keyof Tables]: InferRow<Tables[Name]>
+}
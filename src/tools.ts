@@ -1,5 +1,20 @@
+import { sqliteDialect } from './dialects'
 import { FetchTypes } from './enums'
-import { CountResult, MaybeAsync, Primitive, QueryLoggerMeta, RawQuery } from './interfaces'
+import { ParameterMismatchError, QueryBuilderError } from './errors'
+import {
+  CountResult,
+  DefaultObject,
+  Dialect,
+  Join,
+  MaybeAsync,
+  Primitive,
+  QueryLoggerMeta,
+  RawQuery,
+  Where,
+  WhereObject,
+  WhereOperators,
+  WhereValue,
+} from './interfaces'
 
 export class Raw {
   public isRaw = true
@@ -59,47 +74,37 @@ export class Query<Result = any, IsAsync extends boolean = true> {
    * Returns the SQL query with parameters interpolated for debugging purposes.
    * WARNING: This should NEVER be used to execute queries as it bypasses parameterization.
    *
+   * @param dialect - Dialect used to format the parameters, defaults to sqlite
+   *
    * @example
    * const debugSql = qb.select('users').where('id = ?', 1).getQueryAll().toDebugSQL()
    * // "SELECT * FROM users WHERE id = 1"
    */
-  toDebugSQL(): string {
+  toDebugSQL(dialect: Dialect = sqliteDialect): string {
     if (!this.arguments || this.arguments.length === 0) {
       return this.query
     }
 
     let debugSql = this.query
     const params = [...this.arguments]
+    const format = (value: Primitive | undefined) => (value === undefined ? '?' : dialect.literal(value))
 
-    // Replace numbered parameters first (?1, ?2, etc.)
-    debugSql = debugSql.replace(/\?(\d+)/g, (_, num) => {
+    // Replace numbered parameters first (?1, ?2, etc. or $1, $2, etc.)
+    debugSql = debugSql.replace(/[?$](\d+)/g, (_, num) => {
       const index = Number.parseInt(num, 10) - 1
-      return formatDebugParam(params[index])
+      return format(params[index])
     })
 
     // Then replace unnumbered parameters
     let paramIndex = 0
     debugSql = debugSql.replace(/\?(?!\d)/g, () => {
-      return formatDebugParam(params[paramIndex++])
+      return format(params[paramIndex++])
     })
 
     return debugSql
   }
 }
 
-/**
- * Format a parameter value for debug SQL output.
- */
-function formatDebugParam(value: Primitive | undefined): string {
-  if (value === undefined) return '?'
-  if (value === null) return 'NULL'
-  if (typeof value === 'string') return `'${value.replace(/'/g, "''")}'`
-  if (typeof value === 'number' || typeof value === 'bigint') return String(value)
-  if (typeof value === 'boolean') return value ? '1' : '0'
-  if (value instanceof ArrayBuffer) return "'[ArrayBuffer]'"
-  return String(value)
-}
-
 export class QueryWithExtra<GenericResultWrapper, Result = any, IsAsync extends boolean = true> extends Query<
   Result,
   IsAsync
@@ -127,3 +132,300 @@ export class QueryWithExtra<GenericResultWrapper, Result = any, IsAsync extends
 export function trimQuery(query: string): string {
   return query.replace(/\s\s+/g, ' ')
 }
+
+// Matches quoted literals/identifiers (kept as-is) or a ? / ?N placeholder
+const PLACEHOLDER_REGEX = /('(?:[^']|'')*'|"(?:[^"]|"")*")|\?(\d+)?/g
+
+/**
+ * Compile the ? and ?N placeholders of a handwritten query into the placeholders of a dialect.
+ * Bare ? are numbered after the highest ?N of the query, like SQLite does.
+ *
+ * @example
+ * compilePlaceholders('SELECT * FROM users WHERE id = ? AND name != \'?\'', postgresDialect)
+ * // "SELECT * FROM users WHERE id = $1 AND name != '?'"
+ */
+export function compilePlaceholders(query: string, dialect: Dialect): string {
+  let index = 0
+  for (const match of query.matchAll(PLACEHOLDER_REGEX)) {
+    if (match[2] !== undefined) index = Math.max(index, Number.parseInt(match[2], 10))
+  }
+
+  return query.replace(PLACEHOLDER_REGEX, (match, quoted: string | undefined, num: string | undefined) => {
+    if (quoted !== undefined) return match
+    if (num !== undefined) return dialect.placeholder(Number.parseInt(num, 10))
+    index += 1
+    return dialect.placeholder(index, true)
+  })
+}
+
+// Matches quoted literals/identifiers (kept as-is) or a :name placeholder that is not part of a :: cast
+const NAMED_PARAMETER_REGEX = /('(?:[^']|'')*'|"(?:[^"]|"")*")|(?<!:):([A-Za-z_][A-Za-z0-9_]*)/g
+
+/**
+ * Check whether where/having params were given as an object of named parameters.
+ * Subqueries passed as a single param (plain SelectAll objects) are not considered named parameters.
+ */
+export function isNamedParams(params: unknown): params is DefaultObject {
+  if (typeof params !== 'object' || params === null || Array.isArray(params)) return false
+  const prototype = Object.getPrototypeOf(params)
+  return (prototype === Object.prototype || prototype === null) && !('tableName' in params)
+}
+
+/**
+ * Compile :name placeholders into positional ? placeholders.
+ * Each occurrence of a name adds its value to the returned params, so names can be reused freely.
+ *
+ * @example
+ * compileNamedParams('WHERE', ['status = :status AND org = :org'], { status: 'active', org: 1 })
+ * // { conditions: ['status = ? AND org = ?'], params: ['active', 1] }
+ */
+export function compileNamedParams(
+  clause: string,
+  conditions: Array<string>,
+  params: DefaultObject
+): { conditions: Array<string>; params: Primitive[] } {
+  const positionalParams: Primitive[] = []
+  const usedNames = new Set<string>()
+  const missingNames = new Set<string>()
+
+  const compiledConditions = conditions.map((condition) =>
+    condition.replace(NAMED_PARAMETER_REGEX, (match, quoted: string | undefined, name: string | undefined) => {
+      if (quoted !== undefined || name === undefined) return match
+
+      usedNames.add(name)
+      if (!Object.hasOwn(params, name)) {
+        missingNames.add(name)
+        return match
+      }
+      positionalParams.push(params[name] as Primitive)
+      return '?'
+    })
+  )
+
+  const unusedNames = Object.keys(params).filter((name) => !usedNames.has(name))
+  if (missingNames.size > 0 || unusedNames.length > 0) {
+    const hints: Array<string> = []
+    if (missingNames.size > 0) {
+      hints.push(`Missing values for named parameters: ${[...missingNames].map((name) => `:${name}`).join(', ')}`)
+    }
+    if (unusedNames.length > 0) {
+      hints.push(`Unused named parameters: ${unusedNames.map((name) => `:${name}`).join(', ')}`)
+    }
+
+    throw new ParameterMismatchError({
+      clause,
+      query: conditions.join(' AND '),
+      expectedParams: usedNames.size,
+      receivedParams: Object.keys(params).length,
+      hint: hints.join('. '),
+    })
+  }
+
+  return { conditions: compiledConditions, params: positionalParams }
+}
+
+const WHERE_COMPARISON_OPERATORS: Record<string, string> = {
+  eq: '=',
+  ne: '!=',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+  like: 'LIKE',
+  notLike: 'NOT LIKE',
+}
+
+/**
+ * Check whether a where value uses the object-style form (`{ column: value }`) instead of `{ conditions, params }`.
+ */
+/**
+ * Tables of a query, its table and the tables it joins by name, without their aliases.
+ */
+export function queryTables(tableName: string | undefined, join?: Join | Array<Join>): Array<string> {
+  const joins = join === undefined ? [] : Array.isArray(join) ? join : [join]
+  return [tableName, ...joins.map((item) => item.table)]
+    .filter((table): table is string => typeof table === 'string')
+    .map((table) => table.trim().split(/\s+/)[0]!)
+}
+
+export function isWhereObject(where: Where | undefined): where is WhereObject {
+  return typeof where === 'object' && where !== null && !Array.isArray(where) && !('conditions' in where)
+}
+
+/**
+ * Compile object-style where conditions into the `{ conditions, params }` form, using bare ? placeholders.
+ * Raw values are inlined, null values compile to IS NULL / IS NOT NULL.
+ * Column names are placed in the conditions through the `identifier` callback, used to validate and quote them.
+ * Undefined values and empty `notIn` lists are skipped, except for an UPDATE or DELETE `statement`, where a dropped
+ * condition would widen the rows it changes: these throw a `QueryBuilderError` instead.
+ *
+ * @example
+ * compileWhereObject({ status: 'active', age: { gt: 18 }, deleted_at: null })
+ * // { conditions: ['status = ?', 'age > ?', 'deleted_at IS NULL'], params: ['active', 18] }
+ */
+export function compileWhereObject(
+  where: WhereObject,
+  identifier: (column: string) => string = (column) => column,
+  statement?: 'UPDATE' | 'DELETE'
+): { conditions: Array<string>; params: Primitive[] } {
+  const conditions: Array<string> = []
+  const params: Primitive[] = []
+
+  const checkUndefined = (column: string) => {
+    if (statement) {
+      throw new QueryBuilderError(`Undefined where value for column ${column} in ${statement}`, {
+        clause: 'WHERE',
+        hint: `Remove the column from the conditions, or use null to match NULL values, so the ${statement} does not match more rows than intended`,
+      })
+    }
+  }
+
+  const compare = (column: string, operator: string, value: WhereValue) => {
+    if (value instanceof Raw) {
+      conditions.push(`${column} ${operator} ${value.content}`)
+    } else {
+      conditions.push(`${column} ${operator} ?`)
+      params.push(value)
+    }
+  }
+
+  for (const [key, value] of Object.entries(where)) {
+    if (value === undefined) {
+      checkUndefined(key)
+      continue
+    }
+    const column = identifier(key)
+
+    if (value === null) {
+      conditions.push(`${column} IS NULL`)
+      continue
+    }
+
+    if (typeof value !== 'object' || value instanceof Raw || value instanceof ArrayBuffer) {
+      compare(column, '=', value as WhereValue)
+      continue
+    }
+
+    for (const [operator, operand] of Object.entries(value as WhereOperators)) {
+      if (operand === undefined) {
+        checkUndefined(key)
+        continue
+      }
+
+      if ((operator === 'eq' || operator === 'ne') && operand === null) {
+        conditions.push(`${column} ${operator === 'eq' ? 'IS NULL' : 'IS NOT NULL'}`)
+      } else if (WHERE_COMPARISON_OPERATORS[operator]) {
+        compare(column, WHERE_COMPARISON_OPERATORS[operator], operand as WhereValue)
+      } else if (operator === 'in' || operator === 'notIn') {
+        const values = operand as Array<WhereValue>
+        if (values.length === 0) {
+          // Nothing is IN an empty list, while everything is NOT IN it
+          if (operator === 'in') {
+            conditions.push('0 = 1')
+          } else if (statement) {
+            throw new QueryBuilderError(`Empty notIn list for column ${key} in ${statement}`, {
+              clause: 'WHERE',
+              hint: `Remove the notIn operator if the ${statement} should not exclude any row`,
+            })
+          }
+          continue
+        }
+        conditions.push(`${column} ${operator === 'in' ? 'IN' : 'NOT IN'} (${values.map(() => '?').join(', ')})`)
+        params.push(...values)
+      } else if (operator === 'between' || operator === 'notBetween') {
+        const [min, max] = operand as [WhereValue, WhereValue]
+        conditions.push(`${column} ${operator === 'between' ? 'BETWEEN' : 'NOT BETWEEN'} ? AND ?`)
+        params.push(min, max)
+      } else {
+        throw new QueryBuilderError(`Unknown where operator "${operator}" for column ${key}`, {
+          clause: 'WHERE',
+          hint: `Use one of: ${[...Object.keys(WHERE_COMPARISON_OPERATORS), 'in', 'notIn', 'between', 'notBetween'].join(', ')}`,
+        })
+      }
+    }
+  }
+
+  return { conditions, params }
+}
+
+// Statements with BEGIN ... END bodies, whose semicolons do not end the statement: SQLite triggers, and PostgreSQL
+// functions and procedures with a BEGIN ATOMIC body
+const BLOCK_STATEMENT_REGEX = /^CREATE\s+(?:OR\s+REPLACE\s+)?(?:TEMP\s+|TEMPORARY\s+)?(?:TRIGGER|FUNCTION|PROCEDURE)\b/i
+const DOLLAR_QUOTE_REGEX = /\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/y
+const WORD_REGEX = /[A-Za-z_][A-Za-z0-9_$]*/y
+const IDENTIFIER_CHAR_REGEX = /[A-Za-z0-9_$]/
+
+/**
+ * Split an SQL script into its statements, on the semicolons outside of quotes, comments and BEGIN ... END blocks.
+ * Handles PostgreSQL dollar quotes ($$ ... $$ and $tag$ ... $tag$) and escape strings (E'it\'s'), and the bodies of
+ * SQLite triggers and PostgreSQL BEGIN ATOMIC functions.
+ * Comments are removed, as queries collapse their whitespace and a line comment would swallow the rest of the statement.
+ *
+ * @example
+ * splitStatements("INSERT INTO logs VALUES ('a;b'); -- done;\nDELETE FROM logs;")
+ * // ["INSERT INTO logs VALUES ('a;b')", 'DELETE FROM logs']
+ *
+ * @example
+ * splitStatements('CREATE TRIGGER t AFTER INSERT ON users BEGIN INSERT INTO logs VALUES (1); END; SELECT 1;')
+ * // ['CREATE TRIGGER t AFTER INSERT ON users BEGIN INSERT INTO logs VALUES (1); END', 'SELECT 1']
+ */
+export function splitStatements(script: string): Array<string> {
+  const statements: Array<string> = []
+  let statement = ''
+  // Depth of the BEGIN ... END and CASE ... END blocks of a block statement
+  let depth = 0
+
+  for (let index = 0; index < script.length; index++) {
+    const char = script[index]!
+    // Dollar quotes and keywords only start outside of identifiers, like in $1 or my$var
+    const afterIdentifier = index > 0 && IDENTIFIER_CHAR_REGEX.test(script[index - 1]!)
+    const dollarTag = char === '$' && !afterIdentifier ? matchAt(DOLLAR_QUOTE_REGEX, script, index) : undefined
+    const word = afterIdentifier ? undefined : matchAt(WORD_REGEX, script, index)
+
+    if (char === '-' && script[index + 1] === '-') {
+      const end = script.indexOf('\n', index)
+      index = end === -1 ? script.length : end - 1
+      statement += ' '
+    } else if (char === '/' && script[index + 1] === '*') {
+      const end = script.indexOf('*/', index + 2)
+      index = end === -1 ? script.length : end + 1
+      statement += ' '
+    } else if (char === "'" && /(^|[^A-Za-z0-9_$])[Ee]$/.test(statement.slice(-2))) {
+      // Escape strings escape quotes with backslashes
+      let end = index + 1
+      while (end < script.length && script[end] !== "'") end += script[end] === '\\' ? 2 : 1
+      statement += script.slice(index, end + 1)
+      index = end
+    } else if (char === "'" || char === '"' || char === '`' || char === '[') {
+      // Quotes are escaped by doubling them, which the scan handles as two consecutive quoted sections
+      const end = script.indexOf(char === '[' ? ']' : char, index + 1)
+      statement += script.slice(index, end === -1 ? script.length : end + 1)
+      index = end === -1 ? script.length : end
+    } else if (dollarTag) {
+      const end = script.indexOf(dollarTag, index + dollarTag.length)
+      statement += script.slice(index, end === -1 ? script.length : end + dollarTag.length)
+      index = end === -1 ? script.length : end + dollarTag.length - 1
+    } else if (word) {
+      statement += word
+      index += word.length - 1
+
+      const keyword = word.toUpperCase()
+      if (['BEGIN', 'CASE', 'END'].includes(keyword) && BLOCK_STATEMENT_REGEX.test(statement.trimStart())) {
+        depth = keyword === 'END' ? Math.max(depth - 1, 0) : depth + 1
+      }
+    } else if (char === ';' && depth === 0) {
+      statements.push(statement)
+      statement = ''
+    } else {
+      statement += char
+    }
+  }
+  statements.push(statement)
+
+  return statements.map((statement) => statement.trim()).filter((statement) => statement.length > 0)
+}
+
+function matchAt(regex: RegExp, value: string, index: number): string | undefined {
+  regex.lastIndex = index
+  return regex.exec(value)?.[0]
+}
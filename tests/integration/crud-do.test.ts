@@ -130,16 +130,14 @@ describe('Simple operations', () => {
 })
 
 describe('Transactions', () => {
-  // Note: Durable Objects require using state.storage.transactionSync() instead of SQL BEGIN TRANSACTION.
-  // The DOQB.transaction() method uses SQL statements which don't work in DO environment.
-  // These tests verify the expected behavior would work if the underlying API supported it.
+  // Durable Objects reject BEGIN TRANSACTION, so the storage is passed to run transactions through transactionSync()
 
-  it.skip('transaction() wraps queries in BEGIN/COMMIT - skipped: DO requires storage.transactionSync()', async () => {
+  it('transaction() commits the queries of the callback', async () => {
     const id = env.TEST_DO.idFromName('test-tx')
     const stub = env.TEST_DO.get(id)
 
     await runInDurableObject(stub, (instance, state) => {
-      const qb = new DOQB(state.storage.sql)
+      const qb = new DOQB(state.storage.sql, { storage: state.storage })
 
       qb.createTable({
         tableName: 'txTest',
@@ -165,12 +163,12 @@ describe('Transactions', () => {
     })
   })
 
-  it.skip('transaction() rolls back on error - skipped: DO requires storage.transactionSync()', async () => {
+  it('transaction() rolls back on error', async () => {
     const id = env.TEST_DO.idFromName('test-tx-rollback')
     const stub = env.TEST_DO.get(id)
 
     await runInDurableObject(stub, (instance, state) => {
-      const qb = new DOQB(state.storage.sql)
+      const qb = new DOQB(state.storage.sql, { storage: state.storage })
 
       qb.createTable({
         tableName: 'txRollback',
@@ -204,12 +202,12 @@ describe('Transactions', () => {
     })
   })
 
-  it.skip('transaction() returns value from callback - skipped: DO requires storage.transactionSync()', async () => {
+  it('transaction() returns value from callback', async () => {
     const id = env.TEST_DO.idFromName('test-tx-return')
     const stub = env.TEST_DO.get(id)
 
     await runInDurableObject(stub, (instance, state) => {
-      const qb = new DOQB(state.storage.sql)
+      const qb = new DOQB(state.storage.sql, { storage: state.storage })
 
       qb.createTable({
         tableName: 'txReturn',
@@ -231,6 +229,46 @@ describe('Transactions', () => {
       qb.dropTable({ tableName: 'txReturn' }).execute()
     })
   })
+
+  it('nested transactions only roll back their own changes', async () => {
+    const id = env.TEST_DO.idFromName('test-tx-nested')
+    const stub = env.TEST_DO.get(id)
+
+    await runInDurableObject(stub, (instance, state) => {
+      const qb = new DOQB(state.storage.sql, { storage: state.storage })
+
+      qb.createTable({ tableName: 'txNested', schema: 'id INTEGER PRIMARY KEY, name TEXT NOT NULL' }).execute()
+
+      const result = qb.transaction((tx) => {
+        tx.insert({ tableName: 'txNested', data: { id: 1, name: 'outer' } }).execute()
+        tx.transaction((inner) => inner.insert({ tableName: 'txNested', data: { id: 2, name: 'inner' } }).execute())
+        expect(() =>
+          tx.transaction((inner) => {
+            inner.insert({ tableName: 'txNested', data: { id: 3, name: 'discarded' } }).execute()
+            throw new Error('inner failure')
+          })
+        ).toThrow('inner failure')
+        return 'outer completed'
+      })
+
+      expect(result).toBe('outer completed')
+      expect(qb.select('txNested').fields('name').orderBy('id').all().results).toEqual([
+        { name: 'outer' },
+        { name: 'inner' },
+      ])
+
+      // A failing outer transaction also rolls back the nested ones that completed
+      expect(() =>
+        qb.transaction((tx) => {
+          tx.transaction((inner) => inner.insert({ tableName: 'txNested', data: { id: 4, name: 'nested' } }).execute())
+          throw new Error('outer failure')
+        })
+      ).toThrow('outer failure')
+      expect(qb.select('txNested').count().results?.total).toBe(2)
+
+      qb.dropTable({ tableName: 'txNested' }).execute()
+    })
+  })
 })
 
 describe('Query hooks', () => {
@@ -453,3 +491,29 @@ describe('Pagination', () => {
     })
   })
 })
+
+describe('Script execution', () => {
+  it('runs every statement of a script in a transaction', async () => {
+    const id = env.TEST_DO.idFromName('test')
+    const stub = env.TEST_DO.get(id)
+
+    await runInDurableObject(stub, async (_instance, state) => {
+      const qb = new DOQB(state.storage.sql, { storage: state.storage })
+
+      qb.exec(`
+        CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);
+        CREATE TRIGGER users_log AFTER INSERT ON users
+        BEGIN
+          INSERT INTO logs (name) VALUES ('created;  ' || NEW.name);
+        END;
+        INSERT INTO users (name) VALUES ('Ada');
+      `)
+      expect(qb.fetchAll({ tableName: 'logs', fields: 'name' }).execute().results).toEqual([{ name: 'created;  Ada' }])
+
+      expect(() => qb.exec("INSERT INTO users (name) VALUES ('Alan'); INSERT INTO missing VALUES (1);")).toThrow(
+        'no such table: missing'
+      )
+      expect(qb.fetchAll({ tableName: 'users', fields: 'name' }).execute().results).toEqual([{ name: 'Ada' }])
+    })
+  })
+})
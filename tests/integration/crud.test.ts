@@ -1,6 +1,6 @@
 import { env } from 'cloudflare:test'
 import { afterEach, beforeEach, describe, expect, it } from 'vitest'
-import { D1QB, Raw } from '../../src'
+import { D1QB, defineSchema, defineTable, InferSchema, integer, Raw, TransactionGuardError, text } from '../../src'
 
 describe('Simple operations', () => {
   it('all operations', async () => {
@@ -210,6 +210,77 @@ describe('Transactions', () => {
 
     await qb.dropTable({ tableName: 'txTest2' }).execute()
   })
+
+  it('guard() aborts the whole transaction when the guard query returns no rows', async () => {
+    const qb = new D1QB(env.DB)
+
+    await qb
+      .createTable({
+        tableName: 'txGuard',
+        schema: `
+          id INTEGER PRIMARY KEY,
+          balance INTEGER NOT NULL
+        `,
+        ifNotExists: true,
+      })
+      .execute()
+    await qb.insert({ tableName: 'txGuard', data: { id: 1, balance: 50 } }).execute()
+
+    const withdraw = (amount: number) =>
+      qb.transaction(async (tx) => [
+        tx.insert({ tableName: 'txGuard', data: { id: 100 + amount, balance: 0 } }),
+        tx.guard(tx.select('txGuard').where('id = ? AND balance >= ?', [1, amount]), 'insufficient balance'),
+        tx.update({ tableName: 'txGuard', data: { balance: new Raw(`balance - ${amount}`) }, where: { id: 1 } }),
+      ])
+
+    await expect(withdraw(80)).rejects.toThrow(TransactionGuardError)
+    await expect(withdraw(80)).rejects.toThrow('Transaction guard failed: insufficient balance')
+    expect((await qb.select('txGuard').all()).results).toEqual([{ id: 1, balance: 50 }])
+
+    const results = await withdraw(30)
+    expect(results.length).toBe(3)
+    expect((await qb.select('txGuard').orderBy('id').all()).results).toEqual([
+      { id: 1, balance: 20 },
+      { id: 130, balance: 0 },
+    ])
+
+    await qb.dropTable({ tableName: 'txGuard' }).execute()
+  })
+
+  it('guardChanges() aborts the transaction when the previous write changed no rows', async () => {
+    const qb = new D1QB(env.DB)
+
+    await qb
+      .createTable({
+        tableName: 'txVersioned',
+        schema: `
+          id INTEGER PRIMARY KEY,
+          body TEXT NOT NULL,
+          version INTEGER NOT NULL
+        `,
+        ifNotExists: true,
+      })
+      .execute()
+    await qb.insert({ tableName: 'txVersioned', data: { id: 1, body: 'first', version: 1 } }).execute()
+
+    const save = (body: string, version: number) =>
+      qb.transaction(async (tx) => [
+        tx.update({ tableName: 'txVersioned', data: { body, version: version + 1 }, where: { id: 1, version } }),
+        tx.guardChanges(1, 'document was modified concurrently'),
+        tx.insert({ tableName: 'txVersioned', data: { id: 10 + version, body: 'history', version } }),
+      ])
+
+    await save('second', 1)
+    await expect(save('stale', 1)).rejects.toThrow('Transaction guard failed: document was modified concurrently')
+
+    const rows = await qb.select('txVersioned').orderBy('id').all()
+    expect(rows.results).toEqual([
+      { id: 1, body: 'second', version: 2 },
+      { id: 11, body: 'history', version: 1 },
+    ])
+
+    await qb.dropTable({ tableName: 'txVersioned' }).execute()
+  })
 })
 
 describe('Query hooks', () => {
@@ -411,3 +482,217 @@ describe('Pagination', () => {
     await qb.dropTable({ tableName: 'paginateTest4' }).execute()
   })
 })
+
+describe('Lazy execution', () => {
+  beforeEach(async () => {
+    const qb = new D1QB(env.DB)
+    await qb
+      .createTable({
+        tableName: 'lazyTest',
+        schema: 'id INTEGER PRIMARY KEY, name TEXT',
+        ifNotExists: true,
+      })
+      .execute()
+    await qb
+      .insert({
+        tableName: 'lazyTest',
+        data: Array.from({ length: 7 }, (_, i) => ({ id: i + 1, name: `item${i + 1}` })),
+      })
+      .execute()
+  })
+
+  it('pages through fetchAll lazy results with limit and offset', async () => {
+    const queries: Array<string> = []
+    const qb = new D1QB(env.DB, {
+      lazyBatchSize: 3,
+      afterQuery: (result, query) => {
+        queries.push(query.query)
+        return result
+      },
+    })
+
+    const result = await qb.fetchAll({ tableName: 'lazyTest', orderBy: 'id', lazy: true }).execute()
+    const names: Array<unknown> = []
+    for await (const row of result.results!) {
+      names.push(row.name)
+    }
+
+    expect(names).toEqual(['item1', 'item2', 'item3', 'item4', 'item5', 'item6', 'item7'])
+    expect(queries).toEqual([
+      'SELECT * FROM (SELECT * FROM lazyTest ORDER BY id) LIMIT ? OFFSET ?',
+      'SELECT * FROM (SELECT * FROM lazyTest ORDER BY id) LIMIT ? OFFSET ?',
+      'SELECT * FROM (SELECT * FROM lazyTest ORDER BY id) LIMIT ? OFFSET ?',
+    ])
+  })
+
+  it('pages through lazy results with a keyset column', async () => {
+    const args: Array<any> = []
+    const qb = new D1QB(env.DB, {
+      afterQuery: (result, query) => {
+        args.push(query.args)
+        return result
+      },
+    })
+
+    const result = await qb.lazyExecute(qb.select('lazyTest').where('id != ?', 4).getQueryAll(), {
+      keyset: 'id',
+      batchSize: 2,
+    })
+    const ids: Array<unknown> = []
+    for await (const row of result) {
+      ids.push(row.id)
+    }
+
+    expect(ids).toEqual([1, 2, 3, 5, 6, 7])
+    expect(args).toEqual([
+      [4, 2],
+      [4, 2, 2],
+      [4, 5, 2],
+      [4, 7, 2],
+    ])
+  })
+
+  it('takes the lazy options from fetchAll() and select().execute()', async () => {
+    const args: Array<any> = []
+    const qb = new D1QB(env.DB, {
+      afterQuery: (result, query) => {
+        args.push(query.args)
+        return result
+      },
+    })
+
+    const fetched = await qb
+      .fetchAll({ tableName: 'lazyTest', where: { id: { ne: 4 } }, lazy: { keyset: 'id', batchSize: 4 } })
+      .execute()
+    const ids: Array<unknown> = []
+    for await (const row of fetched.results!) {
+      ids.push(row.id)
+    }
+    const selected = await qb.select('lazyTest').execute({ lazy: { batchSize: 5 } })
+    const names: Array<unknown> = []
+    for await (const row of selected.results!) {
+      names.push(row.name)
+    }
+
+    expect(ids).toEqual([1, 2, 3, 5, 6, 7])
+    expect(names).toHaveLength(7)
+    expect(args).toEqual([
+      [4, 4],
+      [4, 5, 4],
+      [5, 0],
+      [5, 5],
+    ])
+  })
+
+  it('stops fetching pages when the iteration is stopped early', async () => {
+    let pages = 0
+    const qb = new D1QB(env.DB, {
+      lazyBatchSize: 2,
+      afterQuery: (result) => {
+        pages++
+        return result
+      },
+    })
+
+    const result = await qb.select('lazyTest').execute({ lazy: true })
+    for await (const row of result.results!) {
+      if (row.id === 3) break
+    }
+
+    expect(pages).toBe(2)
+  })
+
+  it('throws when the keyset column is null', async () => {
+    const qb = new D1QB(env.DB)
+    await qb.update({ tableName: 'lazyTest', data: { name: null }, where: { id: { lte: 2 } } }).execute()
+
+    const result = await qb.lazyExecute(qb.select('lazyTest').getQueryAll(), { keyset: 'name', batchSize: 2 })
+
+    await expect(async () => {
+      for await (const _ of result) {
+        // consume
+      }
+    }).rejects.toThrow('Keyset column name is missing or null in the lazy results')
+  })
+})
+
+describe('Identifier quoting', () => {
+  it('queries tables and columns named after reserved words', async () => {
+    const qb = new D1QB(env.DB, { quoteIdentifiers: true })
+
+    await qb.createTable({ tableName: 'order', schema: 'id INTEGER PRIMARY KEY, "group" TEXT' }).execute()
+    await qb
+      .insert({
+        tableName: 'order',
+        data: [
+          { id: 1, group: 'b' },
+          { id: 2, group: 'a' },
+        ],
+      })
+      .execute()
+    await qb.update({ tableName: 'order', data: { group: 'c' }, where: { id: 1 } }).execute()
+
+    const result = await qb.select('order').fields(['id', 'group']).orderBy('group').all()
+
+    expect(result.results).toEqual([
+      { id: 2, group: 'a' },
+      { id: 1, group: 'c' },
+    ])
+
+    await qb.dropTable({ tableName: 'order' }).execute()
+  })
+})
+
+describe('Table definitions', () => {
+  it('creates and queries a table declared with defineTable', async () => {
+    const users = defineTable('users', {
+      id: integer().primaryKey({ autoIncrement: true }),
+      email: text().notNull().unique(),
+      role: text<'admin' | 'user'>().notNull().default('user'),
+    })
+    const schema = defineSchema(users)
+    const qb = new D1QB<InferSchema<typeof schema>>(env.DB)
+
+    await qb.createTable({ schema: users }).execute()
+    await qb.insert({ tableName: 'users', data: { email: 'alice@example.com' } }).execute()
+
+    const result = await qb.select('users').where({ email: 'alice@example.com' }).one()
+
+    expect(result.results).toEqual({ id: 1, email: 'alice@example.com', role: 'user' })
+    await expect(qb.insert({ tableName: 'users', data: { email: 'alice@example.com' } }).execute()).rejects.toThrow(
+      'UNIQUE constraint failed'
+    )
+  })
+})
+
+describe('Script execution', () => {
+  it('runs every statement of a script, including trigger bodies', async () => {
+    const qb = new D1QB(env.DB)
+
+    const results = await qb.exec(`
+      CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);
+      CREATE TABLE logs (message TEXT);
+      -- Log every new user; with their name
+      CREATE TRIGGER users_log AFTER INSERT ON users
+      BEGIN
+        INSERT INTO logs (message) VALUES ('created;  ' || NEW.name);
+      END;
+      INSERT INTO users (name) VALUES ('Ada');
+    `)
+
+    expect(results).toHaveLength(4)
+    const logs = await qb.fetchAll({ tableName: 'logs' }).execute()
+    expect(logs.results).toEqual([{ message: 'created;  Ada' }])
+  })
+
+  it('rolls back the whole script when a statement fails', async () => {
+    const qb = new D1QB(env.DB)
+
+    await expect(
+      qb.exec('CREATE TABLE users (id INTEGER PRIMARY KEY); INSERT INTO missing VALUES (1);')
+    ).rejects.toThrow('no such table: missing')
+    const tables = await env.DB.prepare("SELECT name FROM sqlite_master WHERE name = 'users'").all()
+    expect(tables.results).toEqual([])
+    expect(await qb.exec('-- nothing to run')).toEqual([])
+  })
+})
@@ -1,6 +1,16 @@
 import { env } from 'cloudflare:test'
 import { describe, expect, it } from 'vitest'
-import { D1QB, Migration } from '../../src'
+import {
+  AnyMigration,
+  D1QB,
+  defineTable,
+  InvalidConfigurationError,
+  integer,
+  Migration,
+  MigrationError,
+  migrationChecksum,
+  text,
+} from '../../src'
 
 export const migrations: Migration[] = [
   {
@@ -132,3 +142,569 @@ describe('Migrations', () => {
     expect(applyResp3.length).toEqual(0)
   })
 })
+
+describe('Schema diff migrations', () => {
+  const usersV1 = defineTable('users', {
+    id: integer().primaryKey({ autoIncrement: true }),
+    email: text().notNull().unique(),
+  })
+
+  it('creates, alters and rebuilds tables to match their definitions', async () => {
+    const qb = new D1QB(env.DB)
+    const migrations: Array<Migration> = [
+      ...(await qb.migrations({ migrations: [] }).diff([usersV1], { prefix: '0001' })),
+    ]
+
+    expect(migrations.map((migration) => migration.name)).toEqual(['0001_create_users_table'])
+    await qb.migrations({ migrations }).apply()
+    await qb.insert({ tableName: 'users', data: { email: 'alice@example.com' } }).execute()
+    expect(await qb.migrations({ migrations }).diff([usersV1])).toEqual([])
+
+    // New nullable columns and indexes are added in place
+    const usersV2 = defineTable(
+      'users',
+      { ...usersV1.columns, name: text(), role: text().notNull().default('user') },
+      { indexes: [{ columns: ['name'] }] }
+    )
+    const alter = await qb.migrations({ migrations }).diff([usersV2], { prefix: '0002' })
+    expect(alter).toEqual([
+      {
+        name: '0002_alter_users_table',
+        sql: [
+          'ALTER TABLE "users" ADD COLUMN "name" TEXT;',
+          `ALTER TABLE "users" ADD COLUMN "role" TEXT NOT NULL DEFAULT 'user';`,
+          'CREATE INDEX "users_name_idx" ON "users" ("name");',
+        ].join('\n'),
+      },
+    ])
+    migrations.push(...alter)
+    await qb.migrations({ migrations }).apply()
+    expect(await qb.migrations({ migrations }).diff([usersV2])).toEqual([])
+
+    // Dropping a column and making one NOT NULL rebuilds the table, keeping the rows
+    const usersV3 = defineTable(
+      'users',
+      { id: usersV1.columns.id, email: usersV1.columns.email, name: text().notNull().default('') },
+      { indexes: [{ columns: ['name'] }] }
+    )
+    const rebuild = await qb.migrations({ migrations }).diff([usersV3], { prefix: '0003', dropColumns: true })
+    expect(rebuild[0]?.sql).toContain('CREATE TABLE "users__new"')
+    expect(rebuild[0]?.sql).toContain('PRAGMA defer_foreign_keys = ON;')
+    migrations.push(...rebuild)
+    await qb.migrations({ migrations }).apply()
+
+    expect(await qb.migrations({ migrations }).diff([usersV3])).toEqual([])
+    expect((await qb.select('users').fields(['id', 'email']).all()).results).toEqual([
+      { id: 1, email: 'alice@example.com' },
+    ])
+  })
+
+  it('rebuilds tables referenced by foreign keys', async () => {
+    const qb = new D1QB(env.DB)
+    const authors = defineTable('authors', { id: integer().primaryKey(), name: text() })
+    const books = defineTable('books', {
+      id: integer().primaryKey(),
+      author_id: integer().notNull().references('authors', 'id'),
+    })
+    const migrations = await qb.migrations({ migrations: [] }).diff([authors, books], { prefix: '0001' })
+    await qb.migrations({ migrations }).apply()
+    await qb.insert({ tableName: 'authors', data: { id: 1, name: 'Ada' } }).execute()
+    await qb.insert({ tableName: 'books', data: { id: 1, author_id: 1 } }).execute()
+
+    const authorsV2 = defineTable('authors', { id: integer().primaryKey(), name: text().notNull().default('') })
+    migrations.push(...(await qb.migrations({ migrations }).diff([authorsV2], { prefix: '0002' })))
+    await qb.migrations({ migrations }).apply()
+
+    expect(await qb.fetchAll({ tableName: 'books' }).execute()).toMatchObject({ results: [{ id: 1, author_id: 1 }] })
+    await expect(qb.insert({ tableName: 'books', data: { id: 2, author_id: 2 } }).execute()).rejects.toThrow(
+      'FOREIGN KEY constraint failed'
+    )
+  })
+
+  it('refuses to rebuild tables whose ON DELETE actions would run', async () => {
+    const qb = new D1QB(env.DB)
+    const authors = defineTable('authors', { id: integer().primaryKey(), name: text() })
+    const reviews = defineTable('reviews', {
+      id: integer().primaryKey(),
+      author_id: integer().notNull().references('authors', 'id', { onDelete: 'CASCADE' }),
+    })
+    const migrations = await qb.migrations({ migrations: [] }).diff([authors, reviews], { prefix: '0001' })
+    await qb.migrations({ migrations }).apply()
+
+    const authorsV2 = defineTable('authors', { id: integer().primaryKey(), name: text().notNull().default('') })
+    await expect(qb.migrations({ migrations }).diff([authorsV2, reviews])).rejects.toThrow(
+      'Rebuilding table authors would run the ON DELETE actions of reviews.author_id'
+    )
+    await expect(qb.migrations({ migrations }).diff([authorsV2])).rejects.toThrow(
+      'Rebuilding table authors would run the ON DELETE actions of reviews.author_id'
+    )
+  })
+
+  it('fails rebuilds that leave foreign key violations', async () => {
+    const qb = new D1QB(env.DB)
+    const authors = defineTable('authors', { id: integer().primaryKey() })
+    const books = defineTable('books', { id: integer().primaryKey(), author_id: integer().references('authors') })
+    const migrations = await qb.migrations({ migrations: [] }).diff([authors, books], { prefix: '0001' })
+    await qb.migrations({ migrations }).apply()
+    await qb.insert({ tableName: 'authors', data: { id: 1 } }).execute()
+    await qb.insert({ tableName: 'books', data: { id: 1, author_id: 1 } }).execute()
+
+    // Changes to REFERENCES are not diffed, the NOT NULL change rebuilds the table with the new reference
+    const writers = defineTable('writers', { id: integer().primaryKey() })
+    const booksV2 = defineTable('books', {
+      id: integer().primaryKey(),
+      author_id: integer().notNull().default(0).references('writers'),
+    })
+    migrations.push(...(await qb.migrations({ migrations }).diff([writers, booksV2], { prefix: '0002' })))
+
+    await expect(qb.migrations({ migrations }).apply()).rejects.toThrow(
+      'foreign key violations after rebuilding table books'
+    )
+    expect(await qb.migrations({ migrations }).getUnapplied()).toEqual(migrations.slice(-1))
+    expect(await qb.fetchAll({ tableName: 'books' }).execute()).toMatchObject({ results: [{ id: 1, author_id: 1 }] })
+  })
+})
+
+describe('Migration rollback', () => {
+  const reversible: Array<Migration> = [
+    { name: '0001_users', sql: 'CREATE TABLE users (id INTEGER PRIMARY KEY);', down: 'DROP TABLE users;' },
+    { name: '0002_posts', sql: 'CREATE TABLE posts (id INTEGER PRIMARY KEY);', down: 'DROP TABLE posts;' },
+    {
+      name: '0003_posts_title',
+      sql: 'ALTER TABLE posts ADD COLUMN title TEXT;',
+      down: 'ALTER TABLE posts DROP COLUMN title;',
+    },
+  ]
+
+  async function tableNames() {
+    const tables = await env.DB.prepare(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name IN ('users', 'posts') ORDER BY name"
+    ).all()
+    return tables.results.map((table: any) => table.name)
+  }
+
+  it('rolls back the last applied migrations', async () => {
+    const qb = new D1QB(env.DB)
+    await qb.migrations({ migrations: reversible }).apply()
+
+    const rolledBack = await qb.migrations({ migrations: reversible }).rollback({ steps: 2 })
+
+    expect(rolledBack.map((migration) => migration.name)).toEqual(['0003_posts_title', '0002_posts'])
+    expect(await tableNames()).toEqual(['users'])
+    expect((await qb.migrations({ migrations: reversible }).getApplied()).map((entry) => entry.name)).toEqual([
+      '0001_users',
+    ])
+
+    // Rolled back migrations are applied again by the next apply()
+    expect((await qb.migrations({ migrations: reversible }).apply()).length).toEqual(2)
+  })
+
+  it('rolls back to a migration', async () => {
+    const qb = new D1QB(env.DB)
+    await qb.migrations({ migrations: reversible }).apply()
+
+    expect((await qb.migrations({ migrations: reversible }).rollbackTo('0001_users')).length).toEqual(2)
+    expect(await tableNames()).toEqual(['users'])
+    await expect(qb.migrations({ migrations: reversible }).rollbackTo('0002_posts')).rejects.toThrow(
+      'Cannot roll back to 0002_posts, the migration is not applied'
+    )
+  })
+
+  it('does not roll back anything when a migration has no down script', async () => {
+    const qb = new D1QB(env.DB)
+    const migrations = [reversible[0]!, { name: '0002_posts', sql: reversible[1]!.sql }, reversible[2]!]
+    await qb.migrations({ migrations }).apply()
+
+    const rollback = qb.migrations({ migrations }).rollback({ steps: 2 })
+
+    await expect(rollback).rejects.toThrow(MigrationError)
+    await expect(rollback).rejects.toThrow('Cannot roll back 0002_posts, the migration has no down script')
+    expect(await tableNames()).toEqual(['posts', 'users'])
+    expect((await qb.migrations({ migrations }).getApplied()).length).toEqual(3)
+  })
+})
+
+describe('Migration drift', () => {
+  const applied: Array<Migration> = [
+    { name: '0001_users', sql: 'CREATE TABLE users (id INTEGER PRIMARY KEY);' },
+    { name: '0002_posts', sql: 'CREATE TABLE posts (id INTEGER PRIMARY KEY);' },
+    { name: '0003_tags', sql: 'CREATE TABLE tags (id INTEGER PRIMARY KEY);' },
+  ]
+
+  it('records the checksum of applied migrations', async () => {
+    const qb = new D1QB(env.DB)
+    await qb.migrations({ migrations: applied }).apply()
+
+    const entries = await qb.migrations({ migrations: applied }).getApplied()
+
+    expect(entries.map((entry) => entry.checksum)).toEqual(applied.map((migration) => migrationChecksum(migration.sql)))
+    expect(await qb.migrations({ migrations: applied }).verify()).toEqual({
+      ok: true,
+      modified: [],
+      missing: [],
+      unknown: [],
+    })
+  })
+
+  it('reports modified, missing and unknown migrations', async () => {
+    const qb = new D1QB(env.DB)
+    await qb.migrations({ migrations: [applied[0]!, applied[2]!] }).apply()
+
+    const edited: Array<Migration> = [
+      { name: '0001_users', sql: 'CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);' },
+      applied[1]!,
+      { name: '0004_comments', sql: 'CREATE TABLE comments (id INTEGER PRIMARY KEY);' },
+    ]
+
+    expect(await qb.migrations({ migrations: edited }).verify()).toEqual({
+      ok: false,
+      modified: ['0001_users'],
+      missing: [],
+      unknown: ['0003_tags'],
+    })
+    expect(await qb.migrations({ migrations: [...applied.slice(0, 2), applied[2]!] }).verify()).toMatchObject({
+      ok: false,
+      missing: ['0002_posts'],
+    })
+
+    const apply = qb.migrations({ migrations: edited, failOnDrift: true }).apply()
+    await expect(apply).rejects.toThrow(MigrationError)
+    await expect(apply).rejects.toThrow(
+      'Migrations drifted from the database (modified: 0001_users; unknown: 0003_tags)'
+    )
+    expect((await qb.migrations({ migrations: edited }).getApplied()).length).toEqual(2)
+  })
+
+  it('adds the checksum column to migrations tables created without it', async () => {
+    await env.DB.exec(
+      'CREATE TABLE migrations (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT UNIQUE, applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL)'
+    )
+    await env.DB.exec(`INSERT INTO migrations (name) VALUES ('0001_users')`)
+    await env.DB.exec('CREATE TABLE users (id INTEGER PRIMARY KEY)')
+    const qb = new D1QB(env.DB)
+
+    await qb.migrations({ migrations: applied, failOnDrift: true }).apply()
+
+    expect((await qb.migrations({ migrations: applied }).getApplied()).map((entry) => entry.checksum)).toEqual([
+      null,
+      migrationChecksum(applied[1]!.sql),
+      migrationChecksum(applied[2]!.sql),
+    ])
+  })
+})
+
+describe('Atomic migrations', () => {
+  it('leaves neither schema changes nor a record behind when a statement fails', async () => {
+    const qb = new D1QB(env.DB)
+    const migrations: Array<Migration> = [
+      { name: '0001_users', sql: 'CREATE TABLE users (id INTEGER PRIMARY KEY);' },
+      {
+        name: '0002_broken',
+        sql: `CREATE TABLE posts (id INTEGER PRIMARY KEY);
+              INSERT INTO posts (id, title) VALUES (1, 'no such column; here');`,
+      },
+    ]
+
+    await expect(qb.migrations({ migrations }).apply()).rejects.toThrow('no column named title')
+
+    const tables = await env.DB.prepare(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name IN ('users', 'posts')"
+    ).all()
+    expect(tables.results).toEqual([{ name: 'users' }])
+    expect((await qb.migrations({ migrations }).getApplied()).map((entry) => entry.name)).toEqual(['0001_users'])
+  })
+
+  it('applies migrations creating triggers', async () => {
+    const qb = new D1QB(env.DB)
+    const migrations: Array<Migration> = [
+      {
+        name: '0001_users',
+        sql: `CREATE TABLE users (id INTEGER PRIMARY KEY, updated INTEGER DEFAULT 0);
+              CREATE TRIGGER users_updated AFTER UPDATE OF id ON users
+              BEGIN
+                UPDATE users SET updated = 1 WHERE id = NEW.id;
+              END;`,
+      },
+    ]
+
+    await qb.migrations({ migrations }).apply()
+    await qb.insert({ tableName: 'users', data: { id: 1 } }).execute()
+    await qb.update({ tableName: 'users', data: { id: 2 }, where: { conditions: 'id = ?', params: [1] } }).execute()
+
+    expect((await qb.fetchOne({ tableName: 'users' }).execute()).results).toEqual({ id: 2, updated: 1 })
+  })
+
+  it('returns the statements of pending migrations in dry run mode', async () => {
+    const qb = new D1QB(env.DB)
+    const migrations: Array<Migration> = [
+      {
+        name: '0001_users',
+        sql: `-- Users of the app
+              CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT DEFAULT 'a;b');
+              CREATE INDEX users_name ON users (name);`,
+      },
+    ]
+
+    const plan = await qb.migrations({ migrations }).apply({ dryRun: true })
+
+    expect(plan).toEqual([
+      {
+        ...migrations[0],
+        statements: [
+          { sql: "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT DEFAULT 'a;b')", params: [] },
+          { sql: 'CREATE INDEX users_name ON users (name)', params: [] },
+          {
+            sql: 'INSERT INTO migrations (name, checksum) values (?, ?)',
+            params: ['0001_users', migrationChecksum(migrations[0]!.sql)],
+          },
+        ],
+      },
+    ])
+    expect(await qb.migrations({ migrations }).getUnapplied()).toEqual(migrations)
+  })
+
+  it('does not create the migrations table in dry run mode', async () => {
+    const qb = new D1QB(env.DB)
+    const migrations: Array<Migration> = [{ name: '0001_users', sql: 'CREATE TABLE users (id INTEGER PRIMARY KEY);' }]
+
+    const plan = await qb.migrations({ migrations, failOnDrift: true }).apply({ dryRun: true })
+
+    expect(plan.map((migration) => migration.name)).toEqual(['0001_users'])
+    expect(
+      await env.DB.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'migrations'").all()
+    ).toMatchObject({ results: [] })
+  })
+
+  it('lists the migrations applied before a dry run', async () => {
+    const qb = new D1QB(env.DB)
+    const migrations: Array<Migration> = [
+      { name: '0001_users.sql', sql: 'CREATE TABLE users (id INTEGER PRIMARY KEY);' },
+      { name: '0002_posts.sql', sql: 'CREATE TABLE posts (id INTEGER PRIMARY KEY);' },
+    ]
+    await qb.migrations({ migrations: migrations.slice(0, 1), wrangler: true }).apply()
+
+    const plan = await qb.migrations({ migrations, wrangler: true }).apply({ dryRun: true })
+
+    expect(plan.map((migration) => migration.name)).toEqual(['0002_posts.sql'])
+  })
+})
+
+describe('Migration lock', () => {
+  const migrations: Array<Migration> = [
+    { name: '0001_users', sql: 'CREATE TABLE users (id INTEGER PRIMARY KEY);' },
+    { name: '0002_posts', sql: 'CREATE TABLE posts (id INTEGER PRIMARY KEY);' },
+  ]
+
+  it('applies each migration once when apply() runs concurrently', async () => {
+    const qb = new D1QB(env.DB)
+
+    const results = await Promise.all([
+      qb.migrations({ migrations, lock: { retryInterval: 10 } }).apply(),
+      qb.migrations({ migrations, lock: { retryInterval: 10 } }).apply(),
+    ])
+
+    expect(results.flat()).toEqual(migrations)
+    expect(await env.DB.prepare('SELECT * FROM migrations_lock').all()).toMatchObject({ results: [] })
+  })
+
+  it('throws when the lock is still held after the timeout', async () => {
+    const qb = new D1QB(env.DB)
+    await qb.migrations({ migrations: [], lock: true }).apply()
+    await env.DB.prepare('INSERT INTO migrations_lock (id, owner, expires_at) VALUES (1, ?, ?)')
+      .bind('other', Date.now() + 60000)
+      .run()
+
+    await expect(qb.migrations({ migrations, lock: { timeout: 0 } }).apply()).rejects.toThrow(MigrationError)
+    expect(await qb.migrations({ migrations }).getUnapplied()).toEqual(migrations)
+  })
+
+  it('takes over a lock whose lease expired', async () => {
+    const qb = new D1QB(env.DB)
+    await qb.migrations({ migrations: [], lock: true }).apply()
+    await env.DB.prepare('INSERT INTO migrations_lock (id, owner, expires_at) VALUES (1, ?, ?)')
+      .bind('crashed', Date.now() - 1)
+      .run()
+
+    expect(await qb.migrations({ migrations, lock: { timeout: 0 } }).apply()).toEqual(migrations)
+  })
+
+  it('renews the lease before each migration', async () => {
+    const qb = new D1QB(env.DB)
+    let firstMigrationEnd = 0
+    let lease = 0
+    const dataMigrations: Array<AnyMigration> = [
+      {
+        name: '0001_wait',
+        up: async () => {
+          await new Promise((resolve) => setTimeout(resolve, 20))
+          firstMigrationEnd = Date.now()
+        },
+      },
+      {
+        name: '0002_read_lease',
+        up: async () => {
+          const lock = await env.DB.prepare('SELECT expires_at FROM migrations_lock').first<{ expires_at: number }>()
+          lease = lock!.expires_at
+        },
+      },
+    ]
+
+    await qb.migrations({ migrations: dataMigrations, lock: { lease: 60000 } }).apply()
+
+    expect(lease).toBeGreaterThanOrEqual(firstMigrationEnd + 60000)
+  })
+
+  it('stops applying when another process took the lock over', async () => {
+    const qb = new D1QB(env.DB)
+    const takeOver: Migration = { name: '0000_take_over', sql: "UPDATE migrations_lock SET owner = 'other';" }
+
+    await expect(qb.migrations({ migrations: [takeOver, ...migrations], lock: true }).apply()).rejects.toThrow(
+      'Lost the lock of the migrations table, another process took it over'
+    )
+    expect(await qb.migrations({ migrations }).getUnapplied()).toEqual(migrations)
+  })
+})
+
+describe('Wrangler migrations', () => {
+  const migrations: Array<Migration> = [
+    { name: '0010_comments.sql', sql: 'CREATE TABLE comments (id INTEGER PRIMARY KEY);' },
+    { name: '0002_posts.sql', sql: 'CREATE TABLE posts (id INTEGER PRIMARY KEY);' },
+    { name: '0001_users.sql', sql: 'CREATE TABLE users (id INTEGER PRIMARY KEY);' },
+  ]
+
+  it('continues from the migrations applied by Wrangler, in the order of their numbers', async () => {
+    // Table and row as created by wrangler d1 migrations apply
+    await env.DB.batch([
+      env.DB.prepare(`CREATE TABLE d1_migrations(
+        id         INTEGER PRIMARY KEY AUTOINCREMENT,
+        name       TEXT UNIQUE,
+        applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+      )`),
+      env.DB.prepare('CREATE TABLE users (id INTEGER PRIMARY KEY)'),
+      env.DB.prepare("INSERT INTO d1_migrations (name) VALUES ('0001_users.sql')"),
+    ])
+    const qb = new D1QB(env.DB)
+
+    expect(await qb.migrations({ migrations, wrangler: true }).apply()).toEqual([migrations[1], migrations[0]])
+
+    const rows = await env.DB.prepare('SELECT * FROM d1_migrations ORDER BY id').all()
+    expect(rows.results.map((row) => Object.keys(row))).toEqual(Array(3).fill(['id', 'name', 'applied_at']))
+    expect(rows.results.map((row) => row.name)).toEqual(['0001_users.sql', '0002_posts.sql', '0010_comments.sql'])
+    expect(await qb.migrations({ migrations, wrangler: true }).verify()).toEqual({
+      ok: true,
+      modified: [],
+      missing: [],
+      unknown: [],
+    })
+  })
+
+  it('creates the d1_migrations table when it does not exist', async () => {
+    const qb = new D1QB(env.DB)
+
+    await qb.migrations({ migrations, wrangler: true }).apply()
+
+    expect(await qb.migrations({ migrations: [], tableName: 'd1_migrations' }).verify()).toMatchObject({
+      unknown: ['0001_users.sql', '0002_posts.sql', '0010_comments.sql'],
+    })
+  })
+
+  it('rejects migrations not named after Wrangler files', () => {
+    const qb = new D1QB(env.DB)
+
+    expect(() => qb.migrations({ migrations: [{ name: 'create_users', sql: '' }], wrangler: true })).toThrow(
+      InvalidConfigurationError
+    )
+  })
+})
+
+describe('Migration status', () => {
+  it('lists applied, pending and orphaned migrations', async () => {
+    const qb = new D1QB(env.DB)
+    const migrations: Array<Migration> = [
+      { name: '0001_users', sql: 'CREATE TABLE users (id INTEGER PRIMARY KEY);' },
+      { name: '0002_tags', sql: 'CREATE TABLE tags (id INTEGER PRIMARY KEY);' },
+    ]
+    await qb.migrations({ migrations }).apply()
+    const current = [migrations[0]!, { name: '0003_posts', sql: 'CREATE TABLE posts (id INTEGER PRIMARY KEY);' }]
+
+    const status = await qb.migrations({ migrations: current }).status()
+
+    expect(status).toEqual([
+      { name: '0001_users', state: 'applied', appliedAt: expect.any(Date), duration: expect.any(Number) },
+      { name: '0002_tags', state: 'orphaned', appliedAt: expect.any(Date), duration: expect.any(Number) },
+      { name: '0003_posts', state: 'pending', appliedAt: null, duration: null },
+    ])
+    expect(Math.abs(status[0]!.appliedAt!.getTime() - Date.now())).toBeLessThan(60000)
+  })
+
+  it('reports no duration for migrations applied before durations were recorded', async () => {
+    await env.DB.exec(
+      'CREATE TABLE migrations (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT UNIQUE, applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL)'
+    )
+    await env.DB.exec(`INSERT INTO migrations (name) VALUES ('0001_users')`)
+    const qb = new D1QB(env.DB)
+
+    expect(await qb.migrations({ migrations: [{ name: '0001_users', sql: '' }] }).status()).toEqual([
+      { name: '0001_users', state: 'applied', appliedAt: expect.any(Date), duration: null },
+    ])
+  })
+})
+
+describe('Data migrations', () => {
+  it('runs up() functions in order with the SQL migrations', async () => {
+    const qb = new D1QB(env.DB)
+    const migrations: Array<AnyMigration> = [
+      { name: '0001_users', sql: 'CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);' },
+      {
+        name: '0002_seed_users',
+        up: async (qb: D1QB) => {
+          await qb.insert({ tableName: 'users', data: [{ name: 'Ada Lovelace' }, { name: 'Alan Turing' }] }).execute()
+        },
+      },
+      { name: '0003_first_name', sql: 'ALTER TABLE users ADD COLUMN first_name TEXT;' },
+      {
+        name: '0004_backfill_first_name',
+        up: async (qb: D1QB) => {
+          const users = await qb.fetchAll<{ id: number; name: string }>({ tableName: 'users' }).execute()
+          await qb.batchExecute(
+            (users.results ?? []).map((user) =>
+              qb.update({
+                tableName: 'users',
+                data: { first_name: user.name.split(' ')[0]! },
+                where: { conditions: 'id = ?', params: [user.id] },
+              })
+            )
+          )
+        },
+      },
+    ]
+
+    expect(await qb.migrations({ migrations }).apply()).toEqual(migrations)
+
+    const users = await qb.fetchAll({ tableName: 'users', fields: 'first_name', orderBy: 'id' }).execute()
+    expect(users.results).toEqual([{ first_name: 'Ada' }, { first_name: 'Alan' }])
+    const applied = await qb.migrations({ migrations }).getApplied()
+    expect(applied.map((entry) => [entry.name, entry.checksum === null])).toEqual([
+      ['0001_users', false],
+      ['0002_seed_users', true],
+      ['0003_first_name', false],
+      ['0004_backfill_first_name', true],
+    ])
+    expect((await qb.migrations({ migrations }).verify()).ok).toBe(true)
+  })
+
+  it('does not record a data migration whose up() throws', async () => {
+    const qb = new D1QB(env.DB)
+    const migrations: Array<AnyMigration> = [
+      {
+        name: '0001_broken',
+        up: async () => {
+          throw new Error('backfill failed')
+        },
+      },
+    ]
+
+    await expect(qb.migrations({ migrations }).apply()).rejects.toThrow('backfill failed')
+    expect(await qb.migrations({ migrations }).getUnapplied()).toEqual(migrations)
+  })
+})
@@ -1,6 +1,6 @@
 import { env, runInDurableObject } from 'cloudflare:test'
 import { describe, expect, it } from 'vitest'
-import { D1QB, DOQB, Migration } from '../../src'
+import { D1QB, DOMigration, DOQB, defineTable, integer, Migration, real, text } from '../../src'
 
 export const migrations: Migration[] = [
   {
@@ -100,3 +100,257 @@ describe('Migrations', () => {
     })
   })
 })
+
+describe('Schema diff migrations', () => {
+  it('creates and rebuilds tables to match their definitions', async () => {
+    const id = env.TEST_DO.idFromName('test')
+    const stub = env.TEST_DO.get(id)
+
+    await runInDurableObject(stub, async (_instance, state) => {
+      const qb = new DOQB(state.storage.sql)
+      const products = defineTable('products', {
+        id: integer().primaryKey(),
+        name: text().notNull(),
+        price: integer(),
+      })
+
+      const created = qb.migrations({ migrations }).diff({ products }, { prefix: '0002' })
+      expect(created).toEqual([
+        {
+          name: '0002_create_products_table',
+          sql: 'CREATE TABLE "products" ("id" INTEGER PRIMARY KEY, "name" TEXT NOT NULL, "price" INTEGER);',
+        },
+      ])
+      qb.migrations({ migrations: [...migrations, ...created] }).apply()
+      qb.insert({ tableName: 'products', data: { id: 1, name: 'Pen', price: 2 } }).execute()
+
+      // Changing a column type rebuilds the table
+      const productsV2 = defineTable('products', { ...products.columns, price: real() })
+      const rebuild = qb.migrations({ migrations }).diff({ products: productsV2 }, { prefix: '0003' })
+      expect(rebuild[0]?.sql).toEqual(
+        [
+          'PRAGMA defer_foreign_keys = ON;',
+          'CREATE TABLE "products__new" ("id" INTEGER PRIMARY KEY, "name" TEXT NOT NULL, "price" REAL);',
+          'INSERT INTO "products__new" ("id", "name", "price") SELECT "id", "name", "price" FROM "products";',
+          'DROP TABLE "products";',
+          'ALTER TABLE "products__new" RENAME TO "products";',
+          "SELECT CASE WHEN EXISTS (SELECT 1 FROM pragma_foreign_key_check) THEN json_extract('{}', 'foreign key violations after rebuilding table products') END;",
+          'PRAGMA defer_foreign_keys = OFF;',
+        ].join('\n')
+      )
+      qb.migrations({ migrations: [...migrations, ...created, ...rebuild] }).apply()
+
+      expect(qb.migrations({ migrations }).diff({ products: productsV2 })).toEqual([])
+      expect(qb.fetchAll({ tableName: 'products' }).execute().results).toEqual([{ id: 1, name: 'Pen', price: 2 }])
+    })
+  })
+})
+
+describe('Migration rollback', () => {
+  it('rolls back the last applied migrations', async () => {
+    const id = env.TEST_DO.idFromName('test')
+    const stub = env.TEST_DO.get(id)
+
+    await runInDurableObject(stub, async (_instance, state) => {
+      const qb = new DOQB(state.storage.sql)
+      const reversible: Array<Migration> = [
+        ...migrations,
+        { name: '0002_tags', sql: 'CREATE TABLE tags (id INTEGER PRIMARY KEY);', down: 'DROP TABLE tags;' },
+      ]
+      qb.migrations({ migrations: reversible }).apply()
+
+      expect(qb.migrations({ migrations: reversible }).rollback()).toEqual([reversible[1]])
+      expect(Array.from(state.storage.sql.exec("SELECT name FROM sqlite_master WHERE name = 'tags'"))).toEqual([])
+      expect(() => qb.migrations({ migrations: reversible }).rollback()).toThrow(
+        'Cannot roll back 100000000000000_add_logs_table.sql, the migration has no down script'
+      )
+      expect(() => qb.migrations({ migrations: reversible }).rollback({ steps: 0 })).toThrow(
+        'Rollback steps must be a positive integer, got 0'
+      )
+    })
+  })
+})
+
+describe('Migration drift', () => {
+  it('reports migrations modified after they were applied', async () => {
+    const id = env.TEST_DO.idFromName('test')
+    const stub = env.TEST_DO.get(id)
+
+    await runInDurableObject(stub, async (_instance, state) => {
+      const qb = new DOQB(state.storage.sql)
+      const edited = [{ ...migrations[0]!, sql: `${migrations[0]!.sql} CREATE INDEX logs_name ON logs (name);` }]
+
+      expect(qb.migrations({ migrations }).verify().ok).toBe(true)
+      expect(qb.migrations({ migrations: edited }).verify().modified).toEqual(['100000000000000_add_logs_table.sql'])
+      expect(() => qb.migrations({ migrations: edited, failOnDrift: true }).apply()).toThrow(
+        'Migrations drifted from the database (modified: 100000000000000_add_logs_table.sql)'
+      )
+    })
+  })
+})
+
+describe('Transactional migrations', () => {
+  const failing: Array<Migration> = [
+    ...migrations,
+    { name: '0002_tags', sql: 'CREATE TABLE tags (id INTEGER PRIMARY KEY);' },
+    { name: '0003_broken', sql: 'CREATE TABLE notes (id INTEGER PRIMARY KEY); INSERT INTO missing VALUES (1);' },
+  ]
+
+  it('rolls back the failing migration only', async () => {
+    const id = env.TEST_DO.idFromName('test')
+    const stub = env.TEST_DO.get(id)
+
+    await runInDurableObject(stub, async (_instance, state) => {
+      const qb = new DOQB(state.storage.sql, { storage: state.storage })
+
+      expect(() => qb.migrations({ migrations: failing }).apply()).toThrow('no such table: missing')
+      expect(
+        qb
+          .migrations({ migrations: failing })
+          .getApplied()
+          .map((migration) => migration.name)
+      ).toEqual(['100000000000000_add_logs_table.sql', '0002_tags'])
+      expect(
+        Array.from(state.storage.sql.exec("SELECT name FROM sqlite_master WHERE name IN ('tags', 'notes')"))
+      ).toEqual([{ name: 'tags' }])
+    })
+  })
+
+  it('rolls back all the pending migrations with transaction all', async () => {
+    const id = env.TEST_DO.idFromName('test')
+    const stub = env.TEST_DO.get(id)
+
+    await runInDurableObject(stub, async (_instance, state) => {
+      const qb = new DOQB(state.storage.sql, { storage: state.storage })
+
+      expect(() => qb.migrations({ migrations: failing, transaction: 'all' }).apply()).toThrow('no such table: missing')
+      expect(
+        qb
+          .migrations({ migrations: failing })
+          .getUnapplied()
+          .map((migration) => migration.name)
+      ).toEqual(['0002_tags', '0003_broken'])
+      expect(
+        Array.from(state.storage.sql.exec("SELECT name FROM sqlite_master WHERE name IN ('tags', 'notes')"))
+      ).toEqual([])
+
+      expect(qb.migrations({ migrations: failing.slice(0, 2), transaction: 'all' }).apply()).toEqual([failing[1]])
+    })
+  })
+
+  it('needs the storage to run migrations in transactions', async () => {
+    const id = env.TEST_DO.idFromName('test')
+    const stub = env.TEST_DO.get(id)
+
+    await runInDurableObject(stub, async (_instance, state) => {
+      const qb = new DOQB(state.storage.sql)
+
+      expect(() => qb.migrations({ migrations: failing, transaction: 'all' }).apply()).toThrow(
+        'Applying all migrations in one transaction needs the storage of the Durable Object'
+      )
+      expect(() => qb.migrations({ migrations: failing, transaction: 'each' }).apply()).toThrow(
+        'Applying each migration in its own transaction needs the storage of the Durable Object'
+      )
+      expect(() => qb.migrations({ migrations: failing, transaction: 'each' }).rollback()).toThrow(
+        'Applying each migration in its own transaction needs the storage of the Durable Object'
+      )
+      expect(qb.migrations({ migrations: failing }).getUnapplied()).toHaveLength(2)
+
+      // Without the transaction option, the statements of a failing migration that ran before the error stay applied
+      expect(() => qb.migrations({ migrations: failing }).apply()).toThrow('no such table: missing')
+      expect(
+        Array.from(state.storage.sql.exec("SELECT name FROM sqlite_master WHERE name IN ('tags', 'notes')"))
+      ).toEqual([{ name: 'tags' }, { name: 'notes' }])
+    })
+  })
+
+  it('runs transaction() through the storage', async () => {
+    const id = env.TEST_DO.idFromName('test')
+    const stub = env.TEST_DO.get(id)
+
+    await runInDurableObject(stub, async (_instance, state) => {
+      const qb = new DOQB(state.storage.sql, { storage: state.storage })
+
+      qb.transaction((tx) => {
+        tx.insert({ tableName: 'logs', data: { name: 'kept' } }).execute()
+        expect(() =>
+          tx.transaction((inner) => {
+            inner.insert({ tableName: 'logs', data: { name: 'discarded' } }).execute()
+            throw new Error('inner failure')
+          })
+        ).toThrow('inner failure')
+      })
+
+      expect(qb.fetchAll({ tableName: 'logs', fields: 'name' }).execute().results).toEqual([{ name: 'kept' }])
+    })
+  })
+})
+
+describe('Migration status', () => {
+  it('lists applied and pending migrations', async () => {
+    const id = env.TEST_DO.idFromName('test')
+    const stub = env.TEST_DO.get(id)
+
+    await runInDurableObject(stub, async (_instance, state) => {
+      const qb = new DOQB(state.storage.sql)
+      const pending = { name: '0002_tags', sql: 'CREATE TABLE tags (id INTEGER PRIMARY KEY);' }
+
+      expect(qb.migrations({ migrations: [...migrations, pending] }).status()).toEqual([
+        {
+          name: '100000000000000_add_logs_table.sql',
+          state: 'applied',
+          appliedAt: expect.any(Date),
+          duration: expect.any(Number),
+        },
+        { name: '0002_tags', state: 'pending', appliedAt: null, duration: null },
+      ])
+    })
+  })
+})
+
+describe('Data migrations', () => {
+  it('runs up() functions in order with the SQL migrations', async () => {
+    const id = env.TEST_DO.idFromName('test')
+    const stub = env.TEST_DO.get(id)
+
+    await runInDurableObject(stub, async (_instance, state) => {
+      const qb = new DOQB(state.storage.sql, { storage: state.storage })
+      const withData: Array<DOMigration> = [
+        ...migrations,
+        {
+          name: '0002_seed_logs',
+          up: (qb: DOQB) => {
+            qb.insert({ tableName: 'logs', data: { name: 'seeded' } }).execute()
+          },
+        },
+      ]
+
+      expect(qb.migrations({ migrations: withData }).apply()).toEqual([withData[1]])
+      expect(qb.fetchAll({ tableName: 'logs', fields: 'name' }).execute().results).toEqual([{ name: 'seeded' }])
+    })
+  })
+
+  it('rejects asynchronous up() functions', async () => {
+    const id = env.TEST_DO.idFromName('test')
+    const stub = env.TEST_DO.get(id)
+
+    await runInDurableObject(stub, async (_instance, state) => {
+      const qb = new DOQB(state.storage.sql, { storage: state.storage })
+      const withData = [
+        ...migrations,
+        {
+          name: '0002_seed_logs',
+          up: async (qb: DOQB) => {
+            qb.insert({ tableName: 'logs', data: { name: 'seeded' } }).execute()
+          },
+        },
+      ]
+      // @ts-expect-error - Durable Objects migrations are synchronous, JavaScript callers are checked at runtime
+      const builder = qb.migrations({ migrations: withData })
+
+      expect(() => builder.apply()).toThrow('Migration 0002_seed_logs returned a promise, up() must be synchronous')
+      expect(qb.fetchAll({ tableName: 'logs' }).execute().results).toEqual([])
+      expect(builder.getUnapplied()).toEqual([withData[1]])
+    })
+  })
+})
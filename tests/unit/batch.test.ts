@@ -1,5 +1,6 @@
 import { describe, expect, it } from 'vitest'
 import { D1QB } from '../../src/databases/d1'
+import { TransactionGuardError } from '../../src/errors'
 import { QuerybuilderTest } from '../utils'
 
 describe('Batch Builder', () => {
@@ -38,3 +39,53 @@ describe('Batch Builder', () => {
     expect(result[1].results).toStrictEqual([{ id: 1 }])
   })
 })
+
+describe('D1 transaction guards', () => {
+  it('builds guard queries that keep the guarded query parameters', () => {
+    const qb = new D1QB({ prepare: () => {}, batch: () => {}, exec: () => {} })
+
+    const guard = qb.guard(qb.select('accounts').where('id = ?', 1), 'missing account')
+    expect(guard.query).toEqual(
+      "SELECT CASE WHEN EXISTS (SELECT * FROM accounts WHERE id = ?) THEN 1 ELSE json_extract('{}', ?) END AS guard"
+    )
+    expect(guard.arguments).toEqual([1, 'workers-qb guard: missing account'])
+
+    const changes = qb.guardChanges(2)
+    expect(changes.query).toEqual("SELECT CASE WHEN changes() >= ? THEN 1 ELSE json_extract('{}', ?) END AS guard")
+    expect(changes.arguments).toEqual([2, 'workers-qb guard: expected at least 2 changed row(s)'])
+  })
+
+  it('converts failed guards into TransactionGuardError', async () => {
+    const dbMock = {
+      prepare: () => {
+        const stmt = { bind: () => stmt }
+        return stmt
+      },
+      batch: () =>
+        Promise.reject(new Error("D1_ERROR: bad JSON path: 'workers-qb guard: stale version': SQLITE_ERROR")),
+      exec: () => {},
+    }
+    const qb = new D1QB(dbMock)
+
+    const error = await qb.transaction(async (tx) => [tx.guardChanges(1, 'stale version')]).catch((e) => e)
+    expect(error).toBeInstanceOf(TransactionGuardError)
+    expect(error.guard).toBe('stale version')
+  })
+
+  it('rethrows other batch errors unchanged', async () => {
+    const dbError = new Error('D1_ERROR: UNIQUE constraint failed: users.id: SQLITE_CONSTRAINT')
+    const dbMock = {
+      prepare: () => {
+        const stmt = { bind: () => stmt }
+        return stmt
+      },
+      batch: () => Promise.reject(dbError),
+      exec: () => {},
+    }
+    const qb = new D1QB(dbMock)
+
+    await expect(qb.transaction(async (tx) => [tx.insert({ tableName: 'users', data: { id: 1 } })])).rejects.toBe(
+      dbError
+    )
+  })
+})
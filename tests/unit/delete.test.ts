@@ -1,4 +1,5 @@
 import { describe, expect, it } from 'vitest'
+import { QueryBuilderError } from '../../src/errors'
 import { QuerybuilderTest } from '../utils'
 
 describe('Delete Builder', () => {
@@ -232,3 +233,94 @@ describe('Delete Builder', () => {
     expect(result.fetchType).toEqual('ALL')
   })
 })
+
+describe('Fluent DeleteBuilder', () => {
+  it('delete with where', async () => {
+    const result = new QuerybuilderTest().deleteFrom('sessions').where('expires_at < ?', 100).getQuery()
+
+    expect(result.query).toEqual('DELETE FROM sessions WHERE expires_at < ?')
+    expect(result.arguments).toEqual([100])
+    expect(result.fetchType).toEqual('ALL')
+  })
+
+  it('delete with where helpers, order by, limit and returning', async () => {
+    const result = new QuerybuilderTest()
+      .deleteFrom('sessions')
+      .whereIn('user_id', [1, 2])
+      .whereNotNull('revoked_at')
+      .orderBy({ created_at: 'ASC' })
+      .limit(100)
+      .offset(10)
+      .returning('id')
+      .getQuery()
+
+    expect(result.query).toEqual(
+      'DELETE FROM sessions WHERE ((user_id) IN (VALUES (?), (?))) AND (revoked_at IS NOT NULL) ORDER BY created_at ASC LIMIT 100 OFFSET 10 RETURNING id'
+    )
+    expect(result.arguments).toEqual([1, 2])
+  })
+
+  it('delete with orWhere', async () => {
+    const result = new QuerybuilderTest()
+      .deleteFrom('sessions')
+      .where('expires_at < ?', 100)
+      .orWhere('revoked = ?', true)
+      .getQuery()
+
+    expect(result.query).toEqual('DELETE FROM sessions WHERE (expires_at < ?) OR (revoked = ?)')
+    expect(result.arguments).toEqual([100, true])
+  })
+
+  it('delete with subquery in where', async () => {
+    const qb = new QuerybuilderTest()
+    const result = qb
+      .deleteFrom('sessions')
+      .where('user_id IN ?', qb.select('users').fields('id').where('banned = ?', 1))
+      .getQuery()
+
+    expect(result.query).toEqual('DELETE FROM sessions WHERE user_id IN (SELECT id FROM users WHERE banned = ?)')
+    expect(result.arguments).toEqual([1])
+  })
+
+  it('throws when deleting without conditions', async () => {
+    expect(() => new QuerybuilderTest().deleteFrom('sessions').getQuery()).toThrow(QueryBuilderError)
+    expect(() => new QuerybuilderTest().deleteFrom('sessions').where([]).toSQL()).toThrow(
+      'Refusing to DELETE from sessions without WHERE conditions'
+    )
+  })
+
+  it('an empty whereIn matches no rows', async () => {
+    const result = new QuerybuilderTest().deleteFrom('sessions').where('org = ?', 1).whereIn('id', []).getQuery()
+
+    expect(result.query).toEqual('DELETE FROM sessions WHERE (org = ?) AND (0 = 1)')
+    expect(result.arguments).toEqual([1])
+  })
+
+  it('throws for an empty whereNotIn list', async () => {
+    expect(() => new QuerybuilderTest().deleteFrom('sessions').where('org = ?', 1).whereNotIn('id', [])).toThrow(
+      'Empty whereNotIn() list for id in DELETE'
+    )
+  })
+
+  it('all() allows deleting every row', async () => {
+    const result = new QuerybuilderTest().deleteFrom('sessions').all().getQuery()
+
+    expect(result.query).toEqual('DELETE FROM sessions')
+    expect(result.arguments).toEqual(undefined)
+  })
+
+  it('all() is kept across chained calls', async () => {
+    const result = new QuerybuilderTest().deleteFrom('sessions').all().limit(10).returning('*').getQuery()
+
+    expect(result.query).toEqual('DELETE FROM sessions LIMIT 10 RETURNING *')
+  })
+
+  it('builder is immutable', async () => {
+    const base = new QuerybuilderTest().deleteFrom('sessions').where('user_id = ?', 1)
+    const limited = base.limit(1)
+
+    expect(base.toSQL()).toEqual({ sql: 'DELETE FROM sessions WHERE user_id = ?', params: [1] })
+    expect(limited.toSQL()).toEqual({ sql: 'DELETE FROM sessions WHERE user_id = ? LIMIT 1', params: [1] })
+    expect(limited.toDebugSQL()).toEqual('DELETE FROM sessions WHERE user_id = 1 LIMIT 1')
+  })
+})
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest'
+import { DOQB } from '../../src'
+
+/**
+ * A mock SqlStorage that records every statement sent to it.
+ */
+function makeMockSqlStorage() {
+  const queryHistory: string[] = []
+
+  return {
+    exec(query: string, ..._args: any[]) {
+      queryHistory.push(query)
+      return { toArray: () => [], rowsRead: 0, rowsWritten: 0 }
+    },
+    get databaseSize() {
+      return 0
+    },
+    Cursor: {},
+    Statement: {},
+    getQueryHistory() {
+      return queryHistory
+    },
+  }
+}
+
+describe('DOQB transactions', () => {
+  it('commits queries executed inside the callback', () => {
+    const storage = makeMockSqlStorage()
+    const qb = new DOQB(storage)
+
+    const result = qb.transaction((tx) => {
+      tx.insert({ tableName: 'orders', data: { user_id: 1 } }).execute()
+      return 'done'
+    })
+
+    expect(result).toBe('done')
+    expect(storage.getQueryHistory()).toEqual([
+      'BEGIN TRANSACTION',
+      'INSERT INTO orders (user_id) VALUES (?1)',
+      'COMMIT',
+    ])
+  })
+
+  it('rolls back and rethrows when the callback throws', () => {
+    const storage = makeMockSqlStorage()
+    const qb = new DOQB(storage)
+
+    expect(() =>
+      qb.transaction(() => {
+        throw new Error('boom')
+      })
+    ).toThrow('boom')
+
+    // A new transaction after a failure starts a fresh BEGIN instead of a savepoint
+    qb.transaction(() => {})
+
+    expect(storage.getQueryHistory()).toEqual(['BEGIN TRANSACTION', 'ROLLBACK', 'BEGIN TRANSACTION', 'COMMIT'])
+  })
+
+  it('uses savepoints for nested transactions', () => {
+    const storage = makeMockSqlStorage()
+    const qb = new DOQB(storage)
+
+    const result = qb.transaction((tx) =>
+      tx.transaction((inner) => {
+        inner.raw({ query: 'SELECT 1' }).execute()
+        return inner.transaction(() => 'nested')
+      })
+    )
+
+    expect(result).toBe('nested')
+    expect(storage.getQueryHistory()).toEqual([
+      'BEGIN TRANSACTION',
+      'SAVEPOINT sp_1',
+      'SELECT 1',
+      'SAVEPOINT sp_2',
+      'RELEASE SAVEPOINT sp_2',
+      'RELEASE SAVEPOINT sp_1',
+      'COMMIT',
+    ])
+  })
+
+  it('only rolls back the failing nested transaction', () => {
+    const storage = makeMockSqlStorage()
+    const qb = new DOQB(storage)
+
+    qb.transaction((tx) => {
+      tx.raw({ query: 'SELECT 1' }).execute()
+
+      expect(() =>
+        tx.transaction((inner) => {
+          inner.raw({ query: 'SELECT 2' }).execute()
+          throw new Error('inner failure')
+        })
+      ).toThrow('inner failure')
+
+      tx.transaction((inner) => inner.raw({ query: 'SELECT 3' }).execute())
+    })
+
+    expect(storage.getQueryHistory()).toEqual([
+      'BEGIN TRANSACTION',
+      'SELECT 1',
+      'SAVEPOINT sp_1',
+      'SELECT 2',
+      'ROLLBACK TO SAVEPOINT sp_1',
+      'RELEASE SAVEPOINT sp_1',
+      'SAVEPOINT sp_1',
+      'SELECT 3',
+      'RELEASE SAVEPOINT sp_1',
+      'COMMIT',
+    ])
+  })
+})
@@ -1,5 +1,6 @@
 import { describe, expect, it } from 'vitest'
 import { ConflictTypes } from '../../src/enums'
+import { MissingDataError } from '../../src/errors'
 import { Raw } from '../../src/tools'
 import { QuerybuilderTest } from '../utils'
 
@@ -341,3 +342,99 @@ describe('Insert Builder', () => {
     expect(result.fetchType).toEqual('ONE')
   })
 })
+
+describe('Fluent InsertBuilder', () => {
+  it('insert one row', async () => {
+    const result = new QuerybuilderTest().insertInto('testTable').values({ my_field: 'test_data' }).getQuery()
+
+    expect(result.query).toEqual('INSERT INTO testTable (my_field) VALUES (?1)')
+    expect(result.arguments).toEqual(['test_data'])
+    expect(result.fetchType).toEqual('ONE')
+  })
+
+  it('insert multiple rows with returning', async () => {
+    const result = new QuerybuilderTest()
+      .insertInto('testTable')
+      .values([{ my_field: 'test_data' }, { my_field: 'other' }])
+      .returning(['id', 'my_field'])
+      .getQuery()
+
+    expect(result.query).toEqual('INSERT INTO testTable (my_field) VALUES (?1), (?2) RETURNING id, my_field')
+    expect(result.arguments).toEqual(['test_data', 'other'])
+    expect(result.fetchType).toEqual('ALL')
+  })
+
+  it('values() replaces previously set rows', async () => {
+    const result = new QuerybuilderTest()
+      .insertInto('testTable')
+      .values([{ my_field: 'a' }, { my_field: 'b' }])
+      .values({ my_field: 'c' })
+      .getQuery()
+
+    expect(result.query).toEqual('INSERT INTO testTable (my_field) VALUES (?1)')
+    expect(result.arguments).toEqual(['c'])
+    expect(result.fetchType).toEqual('ONE')
+  })
+
+  it('insert with conflict type', async () => {
+    const result = new QuerybuilderTest()
+      .insertInto('testTable')
+      .values({ my_field: 'test_data' })
+      .onConflict(ConflictTypes.IGNORE)
+      .getQuery()
+
+    expect(result.query).toEqual('INSERT OR IGNORE INTO testTable (my_field) VALUES (?1)')
+    expect(result.arguments).toEqual(['test_data'])
+  })
+
+  it('insert with upsert', async () => {
+    const result = new QuerybuilderTest()
+      .insertInto('phonebook2')
+      .values({ name: 'Alice', phonenumber: '704-555-1212' })
+      .onConflict({
+        column: 'name',
+        data: { phonenumber: new Raw('excluded.phonenumber') },
+        where: { conditions: 'active = ?', params: [true] },
+      })
+      .returning('*')
+      .getQuery()
+
+    expect(result.query).toEqual(
+      'INSERT INTO phonebook2 (name, phonenumber) VALUES (?2, ?3) ON CONFLICT (name) DO ' +
+        'UPDATE SET phonenumber = excluded.phonenumber WHERE active = ?1 RETURNING *'
+    )
+    expect(result.arguments).toEqual([true, 'Alice', '704-555-1212'])
+  })
+
+  it('builder is immutable', async () => {
+    const base = new QuerybuilderTest().insertInto('testTable').values({ my_field: 'test_data' })
+    const withReturning = base.returning('*')
+
+    expect(base.toSQL().sql).toEqual('INSERT INTO testTable (my_field) VALUES (?1)')
+    expect(withReturning.toSQL().sql).toEqual('INSERT INTO testTable (my_field) VALUES (?1) RETURNING *')
+  })
+
+  it('toSQL and toDebugSQL', async () => {
+    const builder = new QuerybuilderTest().insertInto('testTable').values({ name: "O'Brien", age: 42 })
+
+    expect(builder.toSQL()).toEqual({
+      sql: 'INSERT INTO testTable (name, age) VALUES (?1, ?2)',
+      params: ["O'Brien", 42],
+    })
+    expect(builder.toDebugSQL()).toEqual("INSERT INTO testTable (name, age) VALUES ('O''Brien', 42)")
+  })
+
+  it('execute runs the insert', async () => {
+    const result = await new QuerybuilderTest().insertInto('testTable').values({ my_field: 'test_data' }).execute()
+
+    expect(result.results).toEqual({
+      query: 'INSERT INTO testTable (my_field) VALUES (?1)',
+      arguments: ['test_data'],
+      fetchType: 'ONE',
+    })
+  })
+
+  it('throws MissingDataError when values are not set', async () => {
+    expect(() => new QuerybuilderTest().insertInto('testTable').getQuery()).toThrow(MissingDataError)
+  })
+})
@@ -1,5 +1,23 @@
 import { describe, expect, it } from 'vitest'
-import { FetchTypes, InvalidConfigurationError, JoinTypes, OrderTypes, SetOperationType } from '../../src'
+import {
+  blob,
+  defineSchema,
+  defineTable,
+  diffSchema,
+  FetchTypes,
+  InvalidConfigurationError,
+  integer,
+  JoinTypes,
+  OrderTypes,
+  postgresDialect,
+  Raw,
+  real,
+  SetOperationType,
+  splitStatements,
+  sqliteDialect,
+  sqliteLiveTable,
+  text,
+} from '../../src'
 import { QuerybuilderTest } from '../utils'
 
 describe('toSQL() / dry-run', () => {
@@ -595,3 +613,878 @@ describe('orWhereLike / orWhereNotLike', () => {
     expect(params).toEqual(['%@spam.com'])
   })
 })
+
+describe('Named parameters', () => {
+  it('compiles named parameters in fetchAll where', () => {
+    const result = new QuerybuilderTest()
+      .fetchAll({
+        tableName: 'users',
+        where: { conditions: 'status = :status AND org = :org', params: { status: 'active', org: 5 } },
+      })
+      .toSQL()
+
+    expect(result.sql).toEqual('SELECT * FROM users WHERE status = ? AND org = ?')
+    expect(result.params).toEqual(['active', 5])
+  })
+
+  it('binds a value for every occurrence of a reused name', () => {
+    const result = new QuerybuilderTest()
+      .fetchAll({
+        tableName: 'users',
+        where: {
+          conditions: ['created_by = :user', 'updated_by = :user OR org = :org'],
+          params: { user: 7, org: 2 },
+        },
+      })
+      .toSQL()
+
+    expect(result.sql).toEqual('SELECT * FROM users WHERE (created_by = ?) AND (updated_by = ? OR org = ?)')
+    expect(result.params).toEqual([7, 7, 2])
+  })
+
+  it('ignores colons inside string literals, quoted identifiers and :: casts', () => {
+    const result = new QuerybuilderTest()
+      .fetchAll({
+        tableName: 'events',
+        where: {
+          conditions: `opens_at = '12:30' AND "a:b" = :value AND id::text = :id`,
+          params: { value: 1, id: '10' },
+        },
+      })
+      .toSQL()
+
+    expect(result.sql).toEqual(`SELECT * FROM events WHERE opens_at = '12:30' AND "a:b" = ? AND id::text = ?`)
+    expect(result.params).toEqual([1, '10'])
+  })
+
+  it('compiles named parameters in SelectBuilder.where() and having()', () => {
+    const result = new QuerybuilderTest()
+      .select('orders')
+      .where('org = ?', 5)
+      .where('status = :status', { status: 'paid' })
+      .groupBy('customer_id')
+      .having('SUM(total) > :min', { min: 100 })
+      .toSQL()
+
+    expect(result.sql).toEqual(
+      'SELECT * FROM orders WHERE (org = ?) AND (status = ?) GROUP BY customer_id HAVING SUM(total) > ?'
+    )
+    expect(result.params).toEqual([5, 'paid', 100])
+  })
+
+  it('accepts subqueries as named parameters in SelectBuilder.where()', () => {
+    const qb = new QuerybuilderTest()
+    const result = qb
+      .select('users')
+      .where('id IN :ids AND org = :org', {
+        ids: qb.select('orders').fields('user_id').where('total > ?', 50),
+        org: 5,
+      })
+      .toSQL()
+
+    expect(result.sql).toEqual(
+      'SELECT * FROM users WHERE id IN (SELECT user_id FROM orders WHERE total > ?) AND org = ?'
+    )
+    expect(result.params).toEqual([50, 5])
+  })
+
+  it('numbers named parameters in update and delete', () => {
+    const qb = new QuerybuilderTest()
+
+    const update = qb.update({
+      tableName: 'users',
+      data: { name: 'Alice' },
+      where: { conditions: 'id = :id AND org = :org', params: { id: 1, org: 5 } },
+    })
+    expect(update.query).toEqual('UPDATE users SET name = ?3 WHERE id = ?1 AND org = ?2')
+    expect(update.arguments).toEqual([1, 5, 'Alice'])
+
+    const del = qb.delete({
+      tableName: 'users',
+      where: { conditions: 'id = :id', params: { id: 1 } },
+    })
+    expect(del.query).toEqual('DELETE FROM users WHERE id = ?')
+    expect(del.arguments).toEqual([1])
+  })
+
+  it('compiles named parameters in insert on conflict where', () => {
+    const result = new QuerybuilderTest().insert({
+      tableName: 'users',
+      data: { id: 1, name: 'Alice' },
+      onConflict: {
+        column: 'id',
+        data: { name: 'Alice' },
+        where: { conditions: 'org = :org', params: { org: 5 } },
+      },
+    })
+
+    expect(result.query).toEqual(
+      'INSERT INTO users (id, name) VALUES (?3, ?4) ON CONFLICT (id) DO UPDATE SET name = ?2 WHERE org = ?1'
+    )
+    expect(result.arguments).toEqual([5, 'Alice', 1, 'Alice'])
+  })
+
+  it('throws ParameterMismatchError for missing named parameters', () => {
+    try {
+      new QuerybuilderTest().fetchAll({
+        tableName: 'users',
+        where: { conditions: 'status = :status AND org = :org', params: { status: 'active' } },
+      })
+      expect.fail('Should have thrown')
+    } catch (e: any) {
+      expect(e.name).toBe('ParameterMismatchError')
+      expect(e.message).toContain('Clause: WHERE')
+      expect(e.message).toContain('Expected: 2 parameter(s)')
+      expect(e.message).toContain('Received: 1 parameter(s)')
+      expect(e.message).toContain('Missing values for named parameters: :org')
+    }
+  })
+
+  it('throws ParameterMismatchError for unused named parameters', () => {
+    try {
+      new QuerybuilderTest().select('users').where('status = :status', { status: 'active', org: 5 })
+      expect.fail('Should have thrown')
+    } catch (e: any) {
+      expect(e.name).toBe('ParameterMismatchError')
+      expect(e.message).toContain('Clause: WHERE')
+      expect(e.message).toContain('Unused named parameters: :org')
+    }
+  })
+})
+
+describe('Object-style where conditions', () => {
+  it('compiles equality, null and operator conditions in fetchAll', () => {
+    const result = new QuerybuilderTest()
+      .fetchAll({
+        tableName: 'users',
+        where: { status: 'active', age: { gt: 18, lte: 65 }, deleted_at: null, id: { in: [1, 2, 3] } },
+      })
+      .toSQL()
+
+    expect(result.sql).toEqual(
+      'SELECT * FROM users WHERE (status = ?) AND (age > ?) AND (age <= ?) AND (deleted_at IS NULL) AND (id IN (?, ?, ?))'
+    )
+    expect(result.params).toEqual(['active', 18, 65, 1, 2, 3])
+  })
+
+  it('compiles every operator', () => {
+    const result = new QuerybuilderTest()
+      .fetchAll({
+        tableName: 'users',
+        where: {
+          a: { eq: 1, ne: 2 },
+          b: { gte: 3, lt: 4 },
+          c: { notIn: [5, 6] },
+          d: { like: 'x%', notLike: '%y' },
+          e: { between: [7, 8] },
+          f: { notBetween: [9, 10] },
+          g: { eq: null },
+          h: { ne: null },
+          i: new Raw('CURRENT_TIMESTAMP'),
+          j: { lt: new Raw('CURRENT_TIMESTAMP') },
+        },
+      })
+      .toSQL()
+
+    expect(result.sql).toEqual(
+      'SELECT * FROM users WHERE (a = ?) AND (a != ?) AND (b >= ?) AND (b < ?) AND (c NOT IN (?, ?)) AND (d LIKE ?) AND ' +
+        '(d NOT LIKE ?) AND (e BETWEEN ? AND ?) AND (f NOT BETWEEN ? AND ?) AND (g IS NULL) AND (h IS NOT NULL) AND ' +
+        '(i = CURRENT_TIMESTAMP) AND (j < CURRENT_TIMESTAMP)'
+    )
+    expect(result.params).toEqual([1, 2, 3, 4, 5, 6, 'x%', '%y', 7, 8, 9, 10])
+  })
+
+  it('matches nothing for an empty in list and ignores an empty notIn list', () => {
+    const result = new QuerybuilderTest()
+      .fetchAll({ tableName: 'users', where: { id: { in: [] }, role: { notIn: [] } } })
+      .toSQL()
+
+    expect(result.sql).toEqual('SELECT * FROM users WHERE 0 = 1')
+    expect(result.params).toEqual([])
+  })
+
+  it('numbers object conditions in update and delete', () => {
+    const qb = new QuerybuilderTest()
+
+    const update = qb.update({
+      tableName: 'users',
+      data: { name: 'Alice' },
+      where: { id: 1, org: { in: [5, 6] } },
+    })
+    expect(update.query).toEqual('UPDATE users SET name = ?4 WHERE (id = ?1) AND (org IN (?2, ?3))')
+    expect(update.arguments).toEqual([1, 5, 6, 'Alice'])
+
+    const del = qb.delete({ tableName: 'users', where: { id: 1, deleted_at: { ne: null } } })
+    expect(del.query).toEqual('DELETE FROM users WHERE (id = ?) AND (deleted_at IS NOT NULL)')
+    expect(del.arguments).toEqual([1])
+  })
+
+  it('compiles object conditions in the modular builders', () => {
+    const qb = new QuerybuilderTest()
+
+    const select = qb
+      .select('users')
+      .where('org = ?', 5)
+      .where({ status: 'active', age: { between: [18, 65] } })
+      .orWhere({ role: 'admin' })
+      .toSQL()
+    expect(select.sql).toEqual(
+      'SELECT * FROM users WHERE ((org = ?) AND (status = ?) AND (age BETWEEN ? AND ?)) OR (role = ?)'
+    )
+    expect(select.params).toEqual([5, 'active', 18, 65, 'admin'])
+
+    const update = qb.updateTable('users').set({ name: 'Alice' }).where({ id: 1 }).toSQL()
+    expect(update.sql).toEqual('UPDATE users SET name = ?2 WHERE id = ?1')
+    expect(update.params).toEqual([1, 'Alice'])
+
+    const del = qb
+      .deleteFrom('users')
+      .where({ id: { in: [1, 2] } })
+      .toSQL()
+    expect(del.sql).toEqual('DELETE FROM users WHERE id IN (?, ?)')
+    expect(del.params).toEqual([1, 2])
+  })
+
+  it('skips undefined values in select', () => {
+    const result = new QuerybuilderTest()
+      .fetchAll({ tableName: 'users', where: { status: 'active', role: undefined, age: { gt: undefined } } })
+      .toSQL()
+
+    expect(result.sql).toEqual('SELECT * FROM users WHERE status = ?')
+    expect(result.params).toEqual(['active'])
+  })
+
+  it('throws for undefined values in update and delete', () => {
+    const qb = new QuerybuilderTest()
+
+    expect(() => qb.update({ tableName: 'users', data: { name: 'Alice' }, where: { id: undefined } })).toThrow(
+      'Undefined where value for column id in UPDATE'
+    )
+    expect(() => qb.delete({ tableName: 'users', where: { org: 1, id: { eq: undefined } } })).toThrow(
+      'Undefined where value for column id in DELETE'
+    )
+    expect(() => qb.updateTable('users').set({ name: 'Alice' }).where({ id: undefined })).toThrow(
+      'Undefined where value for column id in UPDATE'
+    )
+    expect(() => qb.deleteFrom('users').where({ id: undefined })).toThrow(
+      'Undefined where value for column id in DELETE'
+    )
+  })
+
+  it('refuses a modular delete whose object conditions compile to nothing', () => {
+    const qb = new QuerybuilderTest()
+
+    expect(() => qb.deleteFrom('users').where({ id: {} }).getQuery()).toThrow(
+      'Refusing to DELETE from users without WHERE conditions'
+    )
+  })
+
+  it('throws QueryBuilderError for unknown operators', () => {
+    try {
+      new QuerybuilderTest().fetchAll({ tableName: 'users', where: { age: { above: 18 } as any } })
+      expect.fail('Should have thrown')
+    } catch (e: any) {
+      expect(e.name).toBe('QueryBuilderError')
+      expect(e.message).toContain('Unknown where operator "above" for column age')
+      expect(e.message).toContain('Hint:')
+    }
+  })
+})
+
+describe('Grouped where conditions', () => {
+  it('wraps grouped OR conditions in parentheses', () => {
+    const { sql, params } = new QuerybuilderTest()
+      .select('users')
+      .where('tenant_id = ?', 1)
+      .where((w) => w.where('role = ?', 'admin').orWhere('owner = ?', true))
+      .where('deleted_at IS NULL')
+      .toSQL()
+
+    expect(sql).toEqual(
+      'SELECT * FROM users WHERE (tenant_id = ?) AND ((role = ?) OR (owner = ?)) AND (deleted_at IS NULL)'
+    )
+    expect(params).toEqual([1, 'admin', true])
+  })
+
+  it('ORs a group of AND conditions with orWhere()', () => {
+    const { sql, params } = new QuerybuilderTest()
+      .select('users')
+      .where('status = ?', 'active')
+      .orWhere((w) => w.where('role = ?', 'admin').where('verified = ?', 1))
+      .toSQL()
+
+    expect(sql).toEqual('SELECT * FROM users WHERE (status = ?) OR ((role = ?) AND (verified = ?))')
+    expect(params).toEqual(['active', 'admin', 1])
+  })
+
+  it('supports nested groups, object conditions and where helpers', () => {
+    const { sql, params } = new QuerybuilderTest()
+      .select('posts')
+      .where({ published: 1 })
+      .where((w) =>
+        w
+          .whereIn('category', ['news', 'blog'])
+          .orWhere((inner) => inner.where('pinned = ?', 1).whereNotNull('featured_at'))
+      )
+      .toSQL()
+
+    expect(sql).toEqual(
+      'SELECT * FROM posts WHERE (published = ?) AND (((category) IN (VALUES (?), (?))) OR ((pinned = ?) AND (featured_at IS NOT NULL)))'
+    )
+    expect(params).toEqual([1, 'news', 'blog', 1])
+  })
+
+  it('keeps subquery placeholders registered inside a group', () => {
+    const qb = new QuerybuilderTest()
+    const { sql, params } = qb
+      .select('users')
+      .where('id IN ?', qb.select('orders').fields('user_id').where('total > ?', 100))
+      .where((w) =>
+        w.where('org_id = ?', 5).orWhere('id IN ?', qb.select('admins').fields('user_id').where('active = ?', 1))
+      )
+      .toSQL()
+
+    expect(sql).toEqual(
+      'SELECT * FROM users WHERE (id IN (SELECT user_id FROM orders WHERE total > ?)) AND ((org_id = ?) OR ' +
+        '(id IN (SELECT user_id FROM admins WHERE active = ?)))'
+    )
+    expect(params).toEqual([100, 5, 1])
+  })
+
+  it('ignores empty groups', () => {
+    const { sql, params } = new QuerybuilderTest()
+      .select('users')
+      .where('id = ?', 1)
+      .where((w) => w)
+      .orWhere((w) => w.whereIn('id', []))
+      .toSQL()
+
+    expect(sql).toEqual('SELECT * FROM users WHERE id = ?')
+    expect(params).toEqual([1])
+  })
+
+  it('groups conditions in the update and delete builders', () => {
+    const qb = new QuerybuilderTest()
+
+    const update = qb
+      .updateTable('users')
+      .set({ active: 0 })
+      .where('org_id = ?', 5)
+      .where((w) => w.where('last_login < ?', '2024-01-01').orWhere('banned = ?', 1))
+      .toSQL()
+    expect(update.sql).toEqual(
+      'UPDATE users SET active = ?4 WHERE (org_id = ?1) AND ((last_login < ?2) OR (banned = ?3))'
+    )
+    expect(update.params).toEqual([5, '2024-01-01', 1, 0])
+
+    const del = qb
+      .deleteFrom('sessions')
+      .where((w) => w.where('expires_at < ?', 10).orWhere('revoked = ?', 1))
+      .toSQL()
+    expect(del.sql).toEqual('DELETE FROM sessions WHERE (expires_at < ?) OR (revoked = ?)')
+    expect(del.params).toEqual([10, 1])
+  })
+})
+
+describe('Dialects', () => {
+  it('compiles queries with the sqlite dialect by default', () => {
+    const qb = new QuerybuilderTest()
+
+    expect(qb.dialect).toBe(sqliteDialect)
+    expect(qb.insert({ tableName: 'users', data: { id: 1 }, onConflict: 'IGNORE' }).query).toBe(
+      'INSERT OR IGNORE INTO users (id) VALUES (?1)'
+    )
+    expect(qb.raw({ query: 'SELECT * FROM users WHERE id = ? OR parent = ?1' }).query).toBe(
+      'SELECT * FROM users WHERE id = ? OR parent = ?1'
+    )
+  })
+
+  it('compiles queries with a custom dialect', () => {
+    const qb = new QuerybuilderTest({
+      dialect: { ...sqliteDialect, name: 'custom', placeholder: (index) => `:p${index}` },
+    })
+
+    const query = qb.update({
+      tableName: 'users',
+      data: { name: 'Alice', updated_at: new Raw('CURRENT_TIMESTAMP') },
+      where: { conditions: ['id = ?', 'org = ?'], params: [1, 2] },
+    })
+
+    expect(query.query).toBe(
+      'UPDATE users SET name = :p3, updated_at = CURRENT_TIMESTAMP WHERE (id = :p1) AND (org = :p2)'
+    )
+    expect(query.arguments).toEqual([1, 2, 'Alice'])
+  })
+
+  it('throws when the dialect does not support RETURNING', () => {
+    const qb = new QuerybuilderTest({ dialect: { ...sqliteDialect, supportsReturning: false } })
+
+    expect(() => qb.delete({ tableName: 'users', where: { id: 1 }, returning: '*' })).toThrow(
+      'The sqlite dialect does not support RETURNING'
+    )
+  })
+})
+
+describe('Identifier quoting', () => {
+  it('does not quote identifiers by default', () => {
+    const qb = new QuerybuilderTest()
+
+    expect(qb.select('order').fields(['id', 'group']).orderBy('group').getQueryAll().query).toBe(
+      'SELECT id, group FROM order ORDER BY group'
+    )
+  })
+
+  it('quotes table names, fields, ORDER BY and GROUP BY columns', () => {
+    const qb = new QuerybuilderTest({ quoteIdentifiers: true })
+
+    const query = qb
+      .select('main.order o')
+      .fields(['o.id', 'o.group AS grp', 'o.*', 'count(*) as total'])
+      .join({ table: 'users', alias: 'u', on: 'u.id = o.user_id' })
+      .groupBy(['o.group'])
+      .orderBy({ 'o.id': 'DESC' })
+      .orderBy('grp ASC, u.name')
+      .getQueryAll()
+
+    expect(query.query).toBe(
+      'SELECT "o"."id", "o"."group" AS "grp", "o".*, count(*) as total FROM "main"."order" "o"' +
+        ' JOIN "users" AS "u" ON u.id = o.user_id GROUP BY "o"."group" ORDER BY "o"."id" DESC, "grp" ASC, "u"."name"'
+    )
+  })
+
+  it('does not read a leading keyword as an aliased identifier', () => {
+    const qb = new QuerybuilderTest({ quoteIdentifiers: true })
+
+    expect(qb.select('users').fields('DISTINCT name').getQueryAll().query).toBe('SELECT DISTINCT name FROM "users"')
+    expect(qb.select('users').fields(['DISTINCT name', 'email mail']).getQueryAll().query).toBe(
+      'SELECT DISTINCT name, "email" "mail" FROM "users"'
+    )
+  })
+
+  it('quotes insert, update and delete identifiers but leaves Raw values untouched', () => {
+    const qb = new QuerybuilderTest({ quoteIdentifiers: true })
+
+    expect(
+      qb.insert({
+        tableName: 'order',
+        data: { group: 'a', createdAt: new Raw('CURRENT_TIMESTAMP') },
+        onConflict: { column: 'group', data: { createdAt: new Raw('excluded.createdAt') } },
+        returning: ['id', 'group'],
+      }).query
+    ).toBe(
+      'INSERT INTO "order" ("group", "createdAt") VALUES (?1, CURRENT_TIMESTAMP) ON CONFLICT ("group") DO UPDATE SET "createdAt" = excluded.createdAt RETURNING "id", "group"'
+    )
+    expect(
+      qb.update({ tableName: 'order', data: { group: 'b' }, where: { conditions: 'id = ?', params: [1] } }).query
+    ).toBe('UPDATE "order" SET "group" = ?2 WHERE id = ?1')
+    expect(qb.delete({ tableName: 'order', where: { conditions: 'id = ?', params: [1] }, returning: '*' }).query).toBe(
+      'DELETE FROM "order" WHERE id = ? RETURNING *'
+    )
+  })
+
+  it('escapes double quotes inside identifiers', () => {
+    const qb = new QuerybuilderTest({ quoteIdentifiers: true })
+
+    expect(qb.createTable({ tableName: 'order', schema: 'id INTEGER' }).query).toBe(
+      'CREATE TABLE "order" ( id INTEGER)'
+    )
+    expect(sqliteDialect.quoteIdentifier('we"ird.name')).toBe('"we""ird"."name"')
+  })
+})
+
+describe('Strict identifiers', () => {
+  it('accepts plain, qualified and aliased identifiers', () => {
+    const qb = new QuerybuilderTest({ strictIdentifiers: true })
+
+    const query = qb
+      .select('users u')
+      .fields(['u.id', 'u.name AS author', 'u.*', new Raw('count(*) AS total')])
+      .where({ 'u.status': 'active' })
+      .groupBy('u.id')
+      .orderBy({ 'u.name': 'DESC NULLS LAST' })
+      .getQueryAll()
+
+    expect(query.query).toBe(
+      'SELECT u.id, u.name AS author, u.*, count(*) AS total FROM users u WHERE u.status = ? GROUP BY u.id ORDER BY u.name DESC NULLS LAST'
+    )
+  })
+
+  it('rejects identifiers that are not plain names', () => {
+    const qb = new QuerybuilderTest({ strictIdentifiers: true })
+
+    expect(() => qb.select('users').orderBy('id; DROP TABLE users').getQueryAll()).toThrow(InvalidConfigurationError)
+    expect(() => qb.select('users').orderBy({ id: 'ASC, (SELECT password FROM admins)' }).getQueryAll()).toThrow(
+      'Invalid sort direction for id: ASC, (SELECT password FROM admins)'
+    )
+    expect(() => qb.select('users').fields('count(*) as total').getQueryAll()).toThrow(
+      'Invalid column name: count(*) as total'
+    )
+    expect(() => qb.select('users').where({ '1 = 1 OR id': 1 }).getQueryAll()).toThrow(
+      'Invalid column name: 1 = 1 OR id'
+    )
+    expect(() => qb.insert({ tableName: 'users', data: { 'name) VALUES (1); --': 'x' } })).toThrow(
+      InvalidConfigurationError
+    )
+    expect(() => qb.update({ tableName: 'users; --', data: { name: 'x' }, where: { id: 1 } })).toThrow(
+      'Invalid table name: users; --'
+    )
+  })
+
+  it('includes a hint when an identifier is rejected', () => {
+    const qb = new QuerybuilderTest({ strictIdentifiers: true })
+
+    try {
+      qb.select('users').groupBy('lower(name)').getQueryAll()
+      expect.fail('should have thrown')
+    } catch (error) {
+      expect(error).toBeInstanceOf(InvalidConfigurationError)
+      expect((error as InvalidConfigurationError).hint).toContain('Use new Raw() for expressions')
+    }
+  })
+
+  it('only accepts tables and columns from the allowlist', () => {
+    const qb = new QuerybuilderTest({
+      strictIdentifiers: { users: ['id', 'name', 'email'], posts: ['id', 'user_id', 'title'] },
+    })
+
+    expect(
+      qb.select('users').fields(['id', 'name']).orderBy({ name: 'ASC' }).where({ email: 'a@b.c' }).getQueryAll().query
+    ).toBe('SELECT id, name FROM users WHERE email = ? ORDER BY name ASC')
+    expect(
+      qb.insert({ tableName: 'posts', data: { user_id: 1, title: 'Hello' }, onConflict: 'IGNORE', returning: '*' })
+        .query
+    ).toBe('INSERT OR IGNORE INTO posts (user_id, title) VALUES (?1, ?2) RETURNING *')
+    expect(
+      qb.insert({
+        tableName: 'users',
+        data: { id: 1, name: 'Alice' },
+        onConflict: { column: 'id', data: { name: 'Alice' } },
+      }).query
+    ).toBe('INSERT INTO users (id, name) VALUES (?2, ?3) ON CONFLICT (id) DO UPDATE SET name = ?1')
+
+    expect(() => qb.select('users').orderBy({ password: 'ASC' }).getQueryAll()).toThrow('Unknown column: password')
+    expect(() => qb.deleteFrom('sessions').where('id = ?', 1).getQuery()).toThrow('Unknown table: sessions')
+    expect(() => qb.updateTable('users').set({ is_admin: true }).where({ id: 1 }).getQuery()).toThrow(
+      'Unknown column: is_admin'
+    )
+  })
+
+  it('only accepts the allowlisted columns of the tables in the query', () => {
+    const qb = new QuerybuilderTest({
+      strictIdentifiers: { users: ['id', 'name'], posts: ['id', 'user_id', 'title'] },
+    })
+
+    expect(
+      qb
+        .select('posts p')
+        .fields(['p.title', 'u.name'])
+        .join({ table: 'users', alias: 'u', on: 'u.id = p.user_id' })
+        .whereNotNull('name')
+        .getQueryAll().query
+    ).toBe('SELECT p.title, u.name FROM posts p JOIN users AS u ON u.id = p.user_id WHERE name IS NOT NULL')
+    expect(() => qb.select('users').fields(['title']).getQueryAll()).toThrow('Unknown column: title')
+    expect(() => qb.fetchAll({ tableName: 'users', where: { user_id: 1 } }).query).toThrow('Unknown column: user_id')
+    expect(() => qb.updateTable('posts').set({ name: 'a' }).where({ id: 1 }).getQuery()).toThrow('Unknown column: name')
+    expect(() => qb.deleteFrom('users').whereIn('title', ['a']).getQuery()).toThrow('Unknown column: title')
+    expect(() =>
+      qb.insert({ tableName: 'users', data: { id: 1 }, onConflict: { column: 'id', data: { title: 'a' } } })
+    ).toThrow('Unknown column: title')
+    expect(
+      qb.createTable({
+        schema: defineTable('posts', { id: integer().primaryKey(), user_id: integer().references('users') }),
+      }).query
+    ).toContain('user_id INTEGER REFERENCES users(id)')
+  })
+
+  it('validates the columns of the where helpers', () => {
+    const qb = new QuerybuilderTest({ strictIdentifiers: true })
+
+    expect(
+      qb
+        .select('users')
+        .whereIn('id', [1])
+        .whereNotIn(['org', 'role'], [[1, 'admin']])
+        .whereNull('deleted_at')
+        .orWhereNotNull('u.verified_at')
+        .getQueryAll().query
+    ).toBe(
+      'SELECT * FROM users WHERE (((id) IN (VALUES (?))) AND ((org, role) NOT IN (VALUES (?, ?))) AND (deleted_at IS NULL)) OR (u.verified_at IS NOT NULL)'
+    )
+
+    const injected = '1 = 1 OR id'
+    expect(() => qb.select('users').whereIn(injected, [1])).toThrow('Invalid column name: 1 = 1 OR id')
+    expect(() => qb.select('users').whereNotIn(['org', injected], [[1, 2]])).toThrow(InvalidConfigurationError)
+    expect(() => qb.updateTable('users').set({ name: 'x' }).whereNull(injected)).toThrow(InvalidConfigurationError)
+    expect(() => qb.deleteFrom('users').whereNotNull(injected)).toThrow(InvalidConfigurationError)
+    expect(() => qb.select('users').whereBetween(injected, [1, 2])).toThrow(InvalidConfigurationError)
+    expect(() => qb.select('users').orWhereNotBetween(injected, [1, 2])).toThrow(InvalidConfigurationError)
+    expect(() => qb.select('users').whereLike(injected, '%a')).toThrow(InvalidConfigurationError)
+    expect(() => qb.select('users').orWhereNotLike(injected, '%a')).toThrow(InvalidConfigurationError)
+  })
+
+  it('quotes the columns of the where helpers with quoteIdentifiers', () => {
+    const qb = new QuerybuilderTest({ quoteIdentifiers: true })
+
+    expect(qb.select('users').whereIn('group', [1]).whereLike('order', 'a%').getQueryAll().query).toBe(
+      'SELECT * FROM "users" WHERE (("group") IN (VALUES (?))) AND ("order" LIKE ?)'
+    )
+  })
+
+  it('quotes object-style where columns with quoteIdentifiers', () => {
+    const qb = new QuerybuilderTest({ quoteIdentifiers: true, strictIdentifiers: true })
+
+    expect(qb.select('order').where({ group: 'a' }).getQueryAll().query).toBe('SELECT * FROM "order" WHERE "group" = ?')
+  })
+})
+
+describe('Table definitions', () => {
+  const users = defineTable('users', {
+    id: integer().primaryKey({ autoIncrement: true }),
+    email: text().notNull().unique(),
+    score: real().default(0),
+    avatar: blob(),
+    created_at: text().notNull().default(new Raw('CURRENT_TIMESTAMP')),
+  })
+  const posts = defineTable('posts', {
+    id: integer().primaryKey(),
+    user_id: integer().notNull().references('users', 'id', { onDelete: 'CASCADE' }),
+    status: text<'draft' | 'published'>().default('draft'),
+  })
+
+  it('creates a table from a definition', () => {
+    const qb = new QuerybuilderTest()
+
+    expect(qb.createTable({ schema: users, ifNotExists: true }).query).toBe(
+      'CREATE TABLE IF NOT EXISTS users ( id INTEGER PRIMARY KEY AUTOINCREMENT, email TEXT NOT NULL UNIQUE,' +
+        ' score REAL DEFAULT 0, avatar BLOB, created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP)'
+    )
+    expect(qb.createTable({ tableName: 'archived_posts', schema: posts }).query).toBe(
+      "CREATE TABLE archived_posts ( id INTEGER PRIMARY KEY, user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE, status TEXT DEFAULT 'draft')"
+    )
+  })
+
+  it('quotes the column names of a definition', () => {
+    const qb = new QuerybuilderTest({ quoteIdentifiers: true })
+    const orders = defineTable('order', { id: integer().primaryKey(), group: text() })
+
+    expect(qb.createTable({ schema: orders }).query).toBe(
+      'CREATE TABLE "order" ( "id" INTEGER PRIMARY KEY, "group" TEXT)'
+    )
+  })
+
+  it('emits the column types of the dialect', () => {
+    expect(users.createTableSQL({ dialect: postgresDialect })).toBe(
+      'CREATE TABLE users (id SERIAL PRIMARY KEY, email TEXT NOT NULL UNIQUE, score DOUBLE PRECISION DEFAULT 0,' +
+        ' avatar BYTEA, created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP)'
+    )
+  })
+
+  it('groups definitions by table name', () => {
+    const schema = defineSchema(users, posts)
+
+    expect(Object.keys(schema)).toEqual(['users', 'posts'])
+    expect(schema.posts).toBe(posts)
+  })
+
+  it('does not change a column when adding constraints', () => {
+    const id = integer()
+    id.primaryKey()
+
+    expect(id.definition.primaryKey).toBe(false)
+    expect(id.toSQL()).toBe('INTEGER')
+  })
+})
+
+describe('Schema diff', () => {
+  const liveUsers = sqliteLiveTable(
+    'users',
+    [
+      { name: 'id', type: 'INTEGER', notnull: 0, dflt_value: null, pk: 1 },
+      { name: 'email', type: 'TEXT', notnull: 1, dflt_value: null, pk: 0 },
+      { name: 'name', type: 'TEXT', notnull: 0, dflt_value: null, pk: 0 },
+    ],
+    [{ name: 'sqlite_autoindex_users_1', unique: 1, origin: 'u' }],
+    ['email'],
+    []
+  )
+  const columns = {
+    id: integer().primaryKey(),
+    email: text().notNull().unique(),
+    name: text(),
+  }
+
+  it('creates tables that do not exist, with their indexes', () => {
+    const users = defineTable('users', columns, { indexes: [{ columns: ['name', 'email'], name: 'by_name' }] })
+
+    expect(diffSchema([users], { users: null }, sqliteDialect, { prefix: '0001' })).toEqual([
+      {
+        name: '0001_create_users_table',
+        sql:
+          'CREATE TABLE "users" ("id" INTEGER PRIMARY KEY, "email" TEXT NOT NULL UNIQUE, "name" TEXT);\n' +
+          'CREATE INDEX "by_name" ON "users" ("name", "email");',
+      },
+    ])
+  })
+
+  it('returns no migrations for tables that match their definitions', () => {
+    expect(diffSchema([defineTable('users', columns)], { users: liveUsers }, sqliteDialect)).toEqual([])
+  })
+
+  it('names migrations after the current timestamp by default', () => {
+    const [migration] = diffSchema([defineTable('users', columns)], { users: null }, sqliteDialect)
+
+    expect(migration?.name).toMatch(/^\d{14}_create_users_table$/)
+  })
+
+  it('adds columns that SQLite can add with ALTER TABLE', () => {
+    const users = defineTable('users', { ...columns, age: integer(), active: integer().notNull().default(1) })
+
+    expect(diffSchema([users], { users: liveUsers }, sqliteDialect, { prefix: '0002' })[0]?.sql).toBe(
+      'ALTER TABLE "users" ADD COLUMN "age" INTEGER;\nALTER TABLE "users" ADD COLUMN "active" INTEGER NOT NULL DEFAULT 1;'
+    )
+  })
+
+  it.each([
+    ['a UNIQUE column is added', { ...columns, slug: text().unique() }],
+    ['a NOT NULL column without default is added', { ...columns, slug: text().notNull() }],
+    [
+      'a column with an expression default is added',
+      { ...columns, created_at: text().default(new Raw('CURRENT_TIMESTAMP')) },
+    ],
+    ['a column is removed', { id: columns.id, email: columns.email }],
+    ['a UNIQUE constraint is removed', { ...columns, email: text().notNull() }],
+  ])('rebuilds the table when %s', (_, tableColumns) => {
+    const [migration] = diffSchema([defineTable('users', tableColumns)], { users: liveUsers }, sqliteDialect, {
+      dropColumns: true,
+    })
+
+    expect(migration?.sql).toContain('CREATE TABLE "users__new"')
+    expect(migration?.sql).toContain('ALTER TABLE "users__new" RENAME TO "users";')
+  })
+
+  it('turns off foreign keys while rebuilding a table and checks them afterwards', () => {
+    const users = defineTable('users', { ...columns, name: text().notNull().default('anonymous') })
+
+    expect(diffSchema([users], { users: liveUsers }, sqliteDialect)[0]?.sql.split('\n')).toEqual([
+      'PRAGMA foreign_keys = OFF;',
+      `CREATE TABLE "users__new" ("id" INTEGER PRIMARY KEY, "email" TEXT NOT NULL UNIQUE, "name" TEXT NOT NULL DEFAULT 'anonymous');`,
+      `INSERT INTO "users__new" ("id", "email", "name") SELECT "id", "email", COALESCE("name", 'anonymous') FROM "users";`,
+      'DROP TABLE "users";',
+      'ALTER TABLE "users__new" RENAME TO "users";',
+      "SELECT CASE WHEN EXISTS (SELECT 1 FROM pragma_foreign_key_check) THEN json_extract('{}', 'foreign key violations after rebuilding table users') END;",
+      'PRAGMA foreign_keys = ON;',
+    ])
+    expect(
+      diffSchema([users], { users: liveUsers }, sqliteDialect, { foreignKeys: 'defer' })[0]?.sql.split('\n')
+    ).toEqual([
+      'PRAGMA defer_foreign_keys = ON;',
+      `CREATE TABLE "users__new" ("id" INTEGER PRIMARY KEY, "email" TEXT NOT NULL UNIQUE, "name" TEXT NOT NULL DEFAULT 'anonymous');`,
+      `INSERT INTO "users__new" ("id", "email", "name") SELECT "id", "email", COALESCE("name", 'anonymous') FROM "users";`,
+      'DROP TABLE "users";',
+      'ALTER TABLE "users__new" RENAME TO "users";',
+      "SELECT CASE WHEN EXISTS (SELECT 1 FROM pragma_foreign_key_check) THEN json_extract('{}', 'foreign key violations after rebuilding table users') END;",
+      'PRAGMA defer_foreign_keys = OFF;',
+    ])
+  })
+
+  it('refuses deferred rebuilds running the ON DELETE actions of live tables missing from the definitions', () => {
+    const users = defineTable('users', { ...columns, name: text().notNull().default('anonymous') })
+    const referenced = {
+      ...liveUsers,
+      referencedBy: [
+        { table: 'posts', column: 'user_id', onDelete: 'CASCADE' },
+        { table: 'comments', column: 'user_id', onDelete: 'NO ACTION' },
+      ],
+    }
+
+    expect(() => diffSchema([users], { users: referenced }, sqliteDialect, { foreignKeys: 'defer' })).toThrow(
+      'Rebuilding table users would run the ON DELETE actions of posts.user_id'
+    )
+    expect(diffSchema([users], { users: referenced }, sqliteDialect)).toHaveLength(1)
+  })
+
+  it('quotes the referenced table and column of added columns', () => {
+    const users = defineTable('users', { ...columns, team_id: integer().references('teams') })
+
+    expect(diffSchema([users], { users: liveUsers }, sqliteDialect)[0]?.sql).toBe(
+      'ALTER TABLE "users" ADD COLUMN "team_id" INTEGER REFERENCES "teams"("id");'
+    )
+  })
+
+  it('throws for live columns missing from the definition unless dropColumns is set', () => {
+    const users = defineTable('users', { id: columns.id, email: columns.email })
+
+    expect(() => diffSchema([users], { users: liveUsers }, sqliteDialect)).toThrow(
+      'Table users has columns missing from its definition: name'
+    )
+    expect(() => diffSchema([users], { users: liveUsers }, postgresDialect)).toThrow(InvalidConfigurationError)
+    expect(diffSchema([users], { users: liveUsers }, sqliteDialect, { dropColumns: true })[0]?.sql).not.toContain(
+      '"name"'
+    )
+  })
+
+  it('fills null values of columns made NOT NULL with their default', () => {
+    const users = defineTable('users', { ...columns, name: text().notNull().default('anonymous') })
+
+    expect(diffSchema([users], { users: liveUsers }, sqliteDialect)[0]?.sql).toContain(
+      `INSERT INTO "users__new" ("id", "email", "name") SELECT "id", "email", COALESCE("name", 'anonymous') FROM "users";`
+    )
+  })
+})
+
+describe('SQL statement splitting', () => {
+  it('splits on semicolons outside of quotes and comments', () => {
+    const script = `
+      -- Create the users; with a comment
+      CREATE TABLE "users;" (id INTEGER PRIMARY KEY, name TEXT DEFAULT 'it''s; fine');
+      /* Seed; data */
+      INSERT INTO [users;] (name) VALUES ('a'), (\`b;\`);
+      DELETE FROM users
+    `
+
+    expect(splitStatements(script)).toEqual([
+      `CREATE TABLE "users;" (id INTEGER PRIMARY KEY, name TEXT DEFAULT 'it''s; fine')`,
+      "INSERT INTO [users;] (name) VALUES ('a'), (`b;`)",
+      'DELETE FROM users',
+    ])
+  })
+
+  it('drops empty statements and comment-only segments', () => {
+    expect(splitStatements(';; -- nothing here;\n /* or; here */ ;')).toEqual([])
+    expect(splitStatements('SELECT 1 -- trailing comment')).toEqual(['SELECT 1'])
+  })
+
+  it('keeps the BEGIN ... END bodies of triggers whole', () => {
+    const trigger = `CREATE TRIGGER users_log AFTER UPDATE ON users
+      BEGIN
+        INSERT INTO logs (message) VALUES (CASE WHEN NEW.active THEN 'on;' ELSE 'off;' END);
+        UPDATE users SET updated = 1 WHERE id = NEW.id;
+      END`
+
+    expect(
+      splitStatements(
+        `BEGIN TRANSACTION; ${trigger}; CREATE TEMP TRIGGER t BEFORE DELETE ON users BEGIN SELECT 1; END; COMMIT;`
+      )
+    ).toEqual([
+      'BEGIN TRANSACTION',
+      trigger,
+      'CREATE TEMP TRIGGER t BEFORE DELETE ON users BEGIN SELECT 1; END',
+      'COMMIT',
+    ])
+  })
+
+  it('keeps PostgreSQL dollar quotes, escape strings and BEGIN ATOMIC bodies whole', () => {
+    const plpgsql = `CREATE OR REPLACE FUNCTION touch() RETURNS trigger AS $body$
+      BEGIN
+        -- Refresh the timestamp; always
+        NEW.updated_at = now();
+        RETURN NEW;
+      END;
+      $body$ LANGUAGE plpgsql`
+    const atomic = 'CREATE FUNCTION one() RETURNS integer LANGUAGE SQL BEGIN ATOMIC SELECT 1; END'
+
+    expect(
+      splitStatements(`${plpgsql}; SELECT $$a;b$$, E'it\\'s; fine', price$1 FROM t WHERE id = $1; ${atomic}; END;`)
+    ).toEqual([plpgsql, "SELECT $$a;b$$, E'it\\'s; fine', price$1 FROM t WHERE id = $1", atomic, 'END'])
+  })
+})
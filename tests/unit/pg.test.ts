@@ -1,10 +1,20 @@
 import { describe, expect, it } from 'vitest'
-import { Migration, PGQB } from '../../src'
+import {
+  AnyMigration,
+  defineTable,
+  InvalidConfigurationError,
+  integer,
+  Migration,
+  migrationChecksum,
+  PGQB,
+  real,
+  text,
+} from '../../src'
 
 /**
  * A mock pg client that captures the last query sent to it.
  */
-function makeMockPgClient() {
+function makeMockPgClient(migrationRows: Array<Record<string, unknown>> = []) {
   let lastQuery: { text: string; values?: any[] } | null = null
   const queryHistory: Array<{ text: string; values?: any[] }> = []
 
@@ -14,7 +24,7 @@ function makeMockPgClient() {
       queryHistory.push(params)
 
       if (params.text.includes('SELECT * FROM migrations')) {
-        return Promise.resolve({ command: 'SELECT', oid: null, rowCount: 0, rows: [] })
+        return Promise.resolve({ command: 'SELECT', oid: null, rowCount: migrationRows.length, rows: migrationRows })
       }
 
       return Promise.resolve({ command: 'OK', oid: null, rowCount: 0, rows: [] })
@@ -92,6 +102,24 @@ describe('PGQB parameter placeholder conversion', () => {
     expect(lastQuery?.values).toEqual([42, true])
   })
 
+  it('converts named parameters to $1, $2 (UPDATE with WHERE)', async () => {
+    const client = makeMockPgClient()
+    const qb = new PGQB(client)
+
+    await qb
+      .update({
+        tableName: 'users',
+        where: { conditions: 'id = :id AND org = :org', params: { id: 42, org: 7 } },
+        data: { name: 'Alice' },
+      })
+      .execute()
+
+    const lastQuery = client.getLastQuery()
+    expect(lastQuery?.text).toContain('SET name = $3')
+    expect(lastQuery?.text).toContain('WHERE id = $1 AND org = $2')
+    expect(lastQuery?.values).toEqual([42, 7, 'Alice'])
+  })
+
   it('passes through a query with no placeholders unchanged', async () => {
     const client = makeMockPgClient()
     const qb = new PGQB(client)
@@ -109,9 +137,12 @@ describe('PGQB parameter placeholder conversion', () => {
 
     await qb.migrations({ migrations: [] }).initialize()
 
-    const lastQuery = client.getLastQuery()
-    expect(lastQuery?.text).toContain('SERIAL PRIMARY KEY')
-    expect(lastQuery?.text).not.toContain('AUTOINCREMENT')
+    const [createTable, addColumns] = client.getQueryHistory()
+    expect(createTable?.text).toContain('SERIAL PRIMARY KEY')
+    expect(createTable?.text).not.toContain('AUTOINCREMENT')
+    expect(addColumns?.text).toBe(
+      'ALTER TABLE migrations ADD COLUMN IF NOT EXISTS checksum TEXT, ADD COLUMN IF NOT EXISTS duration_ms INTEGER'
+    )
   })
 
   it('applies migrations with PostgreSQL-compatible tracking queries', async () => {
@@ -129,17 +160,22 @@ describe('PGQB parameter placeholder conversion', () => {
     expect(applied).toEqual(migrations)
 
     const queryHistory = client.getQueryHistory()
-    expect(queryHistory).toHaveLength(6)
+    expect(queryHistory).toHaveLength(7)
     expect(queryHistory[0]?.text).toContain('CREATE TABLE IF NOT EXISTS migrations')
     expect(queryHistory[0]?.text).toContain('SERIAL PRIMARY KEY')
-    expect(queryHistory[1]?.text).toBe('SELECT * FROM migrations ORDER BY id')
-    expect(queryHistory[2]?.text).toBe('BEGIN')
-    expect(queryHistory[3]?.text).toContain('CREATE TABLE users (id SERIAL PRIMARY KEY);')
-    expect(queryHistory[3]?.values).toBeUndefined()
-    expect(queryHistory[4]?.text).toContain('INSERT INTO migrations (name)')
-    expect(queryHistory[4]?.text).toContain('values ($1);')
-    expect(queryHistory[4]?.values).toEqual(['0001_create_users_table.sql'])
-    expect(queryHistory[5]?.text).toBe('COMMIT')
+    expect(queryHistory[1]?.text).toContain('ADD COLUMN IF NOT EXISTS checksum')
+    expect(queryHistory[2]?.text).toBe('SELECT * FROM migrations ORDER BY id')
+    expect(queryHistory[3]?.text).toBe('BEGIN')
+    expect(queryHistory[4]?.text).toBe('CREATE TABLE users (id SERIAL PRIMARY KEY)')
+    expect(queryHistory[4]?.values).toBeUndefined()
+    expect(queryHistory[5]?.text).toContain('INSERT INTO migrations (name, checksum, duration_ms)')
+    expect(queryHistory[5]?.text).toContain('values ($1, $2, $3);')
+    expect(queryHistory[5]?.values).toEqual([
+      '0001_create_users_table.sql',
+      migrationChecksum('CREATE TABLE users (id SERIAL PRIMARY KEY);'),
+      expect.any(Number),
+    ])
+    expect(queryHistory[6]?.text).toBe('COMMIT')
   })
 
   it('does not send multi-command parameterized migration queries to PostgreSQL', async () => {
@@ -155,11 +191,721 @@ describe('PGQB parameter placeholder conversion', () => {
     await qb.migrations({ migrations }).apply()
 
     const queryHistory = client.getQueryHistory()
-    expect(queryHistory[3]?.text).toBe(
-      'CREATE TABLE users (id SERIAL PRIMARY KEY); CREATE INDEX users_id_idx ON users (id);'
+    expect(queryHistory[4]?.text).toBe('CREATE TABLE users (id SERIAL PRIMARY KEY)')
+    expect(queryHistory[4]?.values).toBeUndefined()
+    expect(queryHistory[5]?.text).toBe('CREATE INDEX users_id_idx ON users (id)')
+    expect(queryHistory[5]?.values).toBeUndefined()
+    expect(queryHistory[6]?.text).toBe('INSERT INTO migrations (name, checksum, duration_ms) values ($1, $2, $3);')
+    expect(queryHistory[6]?.values?.[0]).toEqual('0001_create_users_table.sql')
+  })
+})
+
+describe('PGQB migration rollback', () => {
+  const migrations: Migration[] = [
+    { name: '0001_users', sql: 'CREATE TABLE users (id SERIAL PRIMARY KEY);', down: 'DROP TABLE users;' },
+    { name: '0002_posts', sql: 'CREATE TABLE posts (id SERIAL PRIMARY KEY);', down: 'DROP TABLE posts;' },
+  ]
+  const applied = [
+    { id: 1, name: '0001_users', applied_at: new Date() },
+    { id: 2, name: '0002_posts', applied_at: new Date() },
+  ]
+
+  it('reverts each migration in its own transaction', async () => {
+    const client = makeMockPgClient(applied)
+    const qb = new PGQB(client)
+
+    expect(await qb.migrations({ migrations }).rollbackTo('0001_users')).toEqual([migrations[1]])
+
+    expect(
+      client
+        .getQueryHistory()
+        .slice(3)
+        .map((query) => [query.text, query.values])
+    ).toEqual([
+      ['BEGIN', undefined],
+      ['DROP TABLE posts', undefined],
+      ['DELETE FROM migrations WHERE name = $1;', ['0002_posts']],
+      ['COMMIT', undefined],
+    ])
+  })
+
+  it('rolls back the transaction when the down script fails', async () => {
+    const client = makeMockPgClient(applied)
+    const query = client.query
+    client.query = (params) =>
+      params.text === 'DROP TABLE posts' ? Promise.reject(new Error('locked')) : query(params)
+    const qb = new PGQB(client)
+
+    await expect(qb.migrations({ migrations }).rollback()).rejects.toThrow('locked')
+    expect(client.getQueryHistory().at(-1)?.text).toBe('ROLLBACK')
+  })
+
+  it('reverts the migrations on a single pool client', async () => {
+    const poolClient = Object.assign(makeMockPgClient(applied), { released: 0, release: () => {} })
+    poolClient.release = () => {
+      poolClient.released++
+    }
+    const poolQueries: string[] = []
+    const pool = {
+      totalCount: 0,
+      connect: () => Promise.resolve(poolClient),
+      query(params: { text: string }) {
+        poolQueries.push(params.text)
+        return Promise.resolve({ command: 'OK', oid: null, rowCount: 0, rows: [] })
+      },
+    }
+    const qb = new PGQB(pool)
+
+    expect(await qb.migrations({ migrations }).rollback({ steps: 2 })).toEqual([migrations[1], migrations[0]])
+    expect(await qb.migrations({ migrations }).rollbackTo('0001_users')).toEqual([migrations[1]])
+
+    expect(poolQueries).toEqual([])
+    expect(poolClient.getQueryHistory().map((query) => query.text)).toContain('DROP TABLE users')
+    expect(poolClient.released).toBe(2)
+  })
+})
+
+describe('PGQB migration drift', () => {
+  it('fails apply() before running anything when an applied migration was modified', async () => {
+    const client = makeMockPgClient([
+      { id: 1, name: '0001_users', applied_at: new Date(), checksum: migrationChecksum('CREATE TABLE users ();') },
+    ])
+    const qb = new PGQB(client)
+    const migrations: Migration[] = [
+      { name: '0001_users', sql: 'CREATE TABLE users (id SERIAL PRIMARY KEY);' },
+      { name: '0002_posts', sql: 'CREATE TABLE posts (id SERIAL PRIMARY KEY);' },
+    ]
+
+    expect(await qb.migrations({ migrations }).verify()).toEqual({
+      ok: false,
+      modified: ['0001_users'],
+      missing: [],
+      unknown: [],
+    })
+    await expect(qb.migrations({ migrations, failOnDrift: true }).apply()).rejects.toThrow(
+      'Migrations drifted from the database (modified: 0001_users)'
+    )
+    expect(client.getQueryHistory().some((query) => query.text === 'BEGIN')).toBe(false)
+  })
+})
+
+describe('PGQB data migrations', () => {
+  it('runs up() in the transaction of the migration', async () => {
+    const client = makeMockPgClient()
+    const qb = new PGQB(client)
+    const migrations: AnyMigration[] = [
+      {
+        name: '0001_backfill',
+        up: async (qb: PGQB) => {
+          await qb.update({ tableName: 'users', data: { active: true }, where: 'active IS NULL' }).execute()
+        },
+      },
+    ]
+
+    expect(await qb.migrations({ migrations }).apply()).toEqual(migrations)
+
+    expect(
+      client
+        .getQueryHistory()
+        .slice(3)
+        .map((query) => [query.text, query.values])
+    ).toEqual([
+      ['BEGIN', undefined],
+      ['UPDATE users SET active = $1 WHERE active IS NULL', [true]],
+      [
+        'INSERT INTO migrations (name, checksum, duration_ms) values ($1, $2, $3);',
+        ['0001_backfill', null, expect.any(Number)],
+      ],
+      ['COMMIT', undefined],
+    ])
+  })
+
+  it('nests the transactions of up() in the transaction of the migration', async () => {
+    const client = makeMockPgClient()
+    const qb = new PGQB(client)
+    const migrations: AnyMigration[] = [
+      {
+        name: '0001_backfill',
+        up: async (qb: PGQB) => {
+          await qb.exec('UPDATE users SET active = true; UPDATE posts SET visible = true')
+          await qb.transaction(async (tx) => {
+            await tx.update({ tableName: 'users', data: { role: 'user' }, where: 'role IS NULL' }).execute()
+          })
+        },
+      },
+    ]
+
+    expect(await qb.migrations({ migrations }).apply()).toEqual(migrations)
+
+    expect(
+      client
+        .getQueryHistory()
+        .slice(3)
+        .map((query) => query.text)
+    ).toEqual([
+      'BEGIN',
+      'SAVEPOINT sp_1',
+      'UPDATE users SET active = true',
+      'UPDATE posts SET visible = true',
+      'RELEASE SAVEPOINT sp_1',
+      'SAVEPOINT sp_1',
+      'UPDATE users SET role = $1 WHERE role IS NULL',
+      'RELEASE SAVEPOINT sp_1',
+      'INSERT INTO migrations (name, checksum, duration_ms) values ($1, $2, $3);',
+      'COMMIT',
+    ])
+  })
+})
+
+describe('PGQB script execution', () => {
+  it('sends each statement verbatim in a transaction', async () => {
+    const client = makeMockPgClient()
+    const qb = new PGQB(client)
+    const fn = `CREATE FUNCTION touch() RETURNS trigger AS $$
+      BEGIN
+        -- Refresh the timestamp
+        NEW.updated_at = now();
+        RETURN NEW;
+      END;
+      $$ LANGUAGE plpgsql`
+
+    const results = await qb.exec(`${fn};
+      SELECT data ? 'key' FROM docs;`)
+
+    expect(results).toHaveLength(2)
+    expect(client.getQueryHistory().map((query) => [query.text, query.values])).toEqual([
+      ['BEGIN', undefined],
+      [fn, undefined],
+      ["SELECT data ? 'key' FROM docs", undefined],
+      ['COMMIT', undefined],
+    ])
+  })
+})
+
+describe('PGQB migration lock', () => {
+  const migrations: Migration[] = [{ name: '0001_users', sql: 'CREATE TABLE users (id SERIAL PRIMARY KEY);' }]
+
+  function withAdvisoryLock(client: ReturnType<typeof makeMockPgClient>, locked: boolean) {
+    const query = client.query
+    client.query = (params) =>
+      params.text.includes('pg_try_advisory_lock')
+        ? query(params).then(() => ({ command: 'SELECT', oid: null, rowCount: 1, rows: [{ locked }] }))
+        : query(params)
+    return client
+  }
+
+  it('holds an advisory lock while applying', async () => {
+    const client = withAdvisoryLock(makeMockPgClient(), true)
+    const qb = new PGQB(client)
+
+    expect(await qb.migrations({ migrations, lock: true }).apply()).toEqual(migrations)
+
+    const history = client.getQueryHistory()
+    expect([history[0], history.at(-1)]).toEqual([
+      { text: 'SELECT pg_try_advisory_lock(hashtext($1)) AS locked', values: ['migrations'] },
+      { text: 'SELECT pg_advisory_unlock(hashtext($1))', values: ['migrations'] },
+    ])
+    expect(history.at(-2)?.text).toBe('COMMIT')
+  })
+
+  it('throws when the lock is still held after the timeout', async () => {
+    const client = withAdvisoryLock(makeMockPgClient(), false)
+    const qb = new PGQB(client)
+
+    await expect(qb.migrations({ migrations, lock: { timeout: 20, retryInterval: 5 } }).apply()).rejects.toThrow(
+      'Timed out after 20ms waiting for the lock of the migrations table'
+    )
+    const history = client.getQueryHistory()
+    expect(history.length).toBeGreaterThan(1)
+    expect(history.every((query) => query.text.includes('pg_try_advisory_lock'))).toBe(true)
+  })
+
+  it('releases the lock when a migration fails', async () => {
+    const client = withAdvisoryLock(makeMockPgClient(), true)
+    const query = client.query
+    client.query = (params) =>
+      params.text === 'CREATE TABLE users (id SERIAL PRIMARY KEY)'
+        ? Promise.reject(new Error('syntax error'))
+        : query(params)
+    const qb = new PGQB(client)
+
+    await expect(qb.migrations({ migrations, lock: true }).apply()).rejects.toThrow('syntax error')
+    expect(client.getQueryHistory().at(-1)?.text).toBe('SELECT pg_advisory_unlock(hashtext($1))')
+  })
+
+  it('takes the lock and applies the migrations on a single pool client', async () => {
+    const poolClient = Object.assign(withAdvisoryLock(makeMockPgClient(), true), { released: 0, release: () => {} })
+    poolClient.release = () => {
+      poolClient.released++
+    }
+    const poolQueries: string[] = []
+    const pool = {
+      totalCount: 0,
+      connect: () => Promise.resolve(poolClient),
+      query(params: { text: string }) {
+        poolQueries.push(params.text)
+        return Promise.resolve({ command: 'OK', oid: null, rowCount: 0, rows: [] })
+      },
+    }
+    const qb = new PGQB(pool)
+
+    expect(await qb.migrations({ migrations, lock: true }).apply()).toEqual(migrations)
+
+    expect(poolQueries).toEqual([])
+    const history = poolClient.getQueryHistory().map((query) => query.text)
+    expect([history[0], history.at(-1)]).toEqual([
+      'SELECT pg_try_advisory_lock(hashtext($1)) AS locked',
+      'SELECT pg_advisory_unlock(hashtext($1))',
+    ])
+    expect(history).toContain('BEGIN')
+    expect(poolClient.released).toBe(1)
+  })
+})
+
+describe('PGQB postgres dialect', () => {
+  it('compiles insert and upsert placeholders to $N', () => {
+    const qb = new PGQB(makeMockPgClient())
+
+    const query = qb.insert({
+      tableName: 'users',
+      data: { id: 1, name: 'Alice' },
+      onConflict: { column: 'id', data: { name: 'Alice' }, where: { conditions: 'users.active = ?', params: [true] } },
+      returning: '*',
+    })
+
+    expect(query.query).toBe(
+      'INSERT INTO users (id, name) VALUES ($3, $4) ON CONFLICT (id) DO UPDATE SET name = $2 WHERE users.active = $1 RETURNING *'
+    )
+    expect(query.arguments).toEqual([true, 'Alice', 1, 'Alice'])
+  })
+
+  it('compiles IGNORE conflicts to ON CONFLICT DO NOTHING', () => {
+    const qb = new PGQB(makeMockPgClient())
+
+    const query = qb.insert({ tableName: 'users', data: { id: 1 }, onConflict: 'IGNORE', returning: 'id' })
+
+    expect(query.query).toBe('INSERT INTO users (id) VALUES ($1) ON CONFLICT DO NOTHING RETURNING id')
+  })
+
+  it('rejects conflict resolutions PostgreSQL does not support', () => {
+    const qb = new PGQB(makeMockPgClient())
+
+    expect(() => qb.insert({ tableName: 'users', data: { id: 1 }, onConflict: 'REPLACE' })).toThrow(
+      InvalidConfigurationError
+    )
+    expect(() =>
+      qb.update({ tableName: 'users', data: { name: 'Alice' }, where: { id: 1 }, onConflict: 'IGNORE' })
+    ).toThrow('PostgreSQL does not support UPDATE OR IGNORE')
+  })
+
+  it('compiles raw query placeholders without touching string literals', async () => {
+    const client = makeMockPgClient()
+    const qb = new PGQB(client)
+
+    await qb
+      .raw({ query: "SELECT * FROM users WHERE id = ?2 AND name = ? AND note != 'why?'", args: [1, 'Alice', 2] })
+      .execute()
+
+    expect(client.getLastQuery()?.text).toBe("SELECT * FROM users WHERE id = $2 AND name = $3 AND note != 'why?'")
+  })
+
+  it('quotes mixed-case identifiers when quoteIdentifiers is enabled', () => {
+    const qb = new PGQB(makeMockPgClient(), { quoteIdentifiers: true })
+
+    const query = qb.update({
+      tableName: 'public.userAccounts',
+      data: { displayName: 'Alice' },
+      where: { conditions: '"userId" = ?', params: [1] },
+      returning: 'userId, displayName',
+    })
+
+    expect(query.query).toBe(
+      'UPDATE "public"."userAccounts" SET "displayName" = $2 WHERE "userId" = $1 RETURNING "userId", "displayName"'
+    )
+  })
+
+  it('prints debug SQL with postgres literals', () => {
+    const qb = new PGQB(makeMockPgClient())
+
+    const query = qb.select('users').where('active = ?', true).where('name = ?', "O'Brien").getQueryAll()
+
+    expect(query.toDebugSQL(qb.dialect)).toBe("SELECT * FROM users WHERE (active = TRUE) AND (name = 'O''Brien')")
+    expect(query.toDebugSQL()).toBe("SELECT * FROM users WHERE (active = 1) AND (name = 'O''Brien')")
+  })
+})
+
+describe('PGQB transactions', () => {
+  it('commits queries executed inside the callback', async () => {
+    const client = makeMockPgClient()
+    const qb = new PGQB(client)
+
+    const result = await qb.transaction(async (tx) => {
+      await tx.insert({ tableName: 'orders', data: { user_id: 1, total: 100 } }).execute()
+      await tx.update({ tableName: 'users', data: { balance: 50 }, where: { id: 1 } }).execute()
+      return 'done'
+    })
+
+    expect(result).toBe('done')
+    expect(client.getQueryHistory().map((q) => q.text)).toEqual([
+      'BEGIN',
+      'INSERT INTO orders (user_id, total) VALUES ($1, $2)',
+      'UPDATE users SET balance = $2 WHERE id = $1',
+      'COMMIT',
+    ])
+  })
+
+  it('rolls back and rethrows when the callback throws', async () => {
+    const client = makeMockPgClient()
+    const qb = new PGQB(client)
+
+    await expect(
+      qb.transaction(async (tx) => {
+        await tx.delete({ tableName: 'users', where: { id: 1 } }).execute()
+        throw new Error('boom')
+      })
+    ).rejects.toThrow('boom')
+
+    expect(client.getQueryHistory().map((q) => q.text)).toEqual([
+      'BEGIN',
+      'DELETE FROM users WHERE id = $1',
+      'ROLLBACK',
+    ])
+  })
+
+  it('starts the transaction with the requested isolation level', async () => {
+    const client = makeMockPgClient()
+    const qb = new PGQB(client)
+
+    await qb.transaction(async () => {}, { isolationLevel: 'SERIALIZABLE' })
+
+    expect(client.getQueryHistory().map((q) => q.text)).toEqual(['BEGIN ISOLATION LEVEL SERIALIZABLE', 'COMMIT'])
+  })
+
+  it('uses savepoints for nested transactions and keeps the outer transaction on inner failure', async () => {
+    const client = makeMockPgClient()
+    const qb = new PGQB(client)
+
+    await qb.transaction(async (tx) => {
+      await tx.raw({ query: 'SELECT 1' }).execute()
+
+      await tx.transaction(async (inner) => {
+        await inner.raw({ query: 'SELECT 2' }).execute()
+        await inner.transaction(async (deepest) => {
+          await deepest.raw({ query: 'SELECT 3' }).execute()
+        })
+      })
+
+      await expect(
+        tx.transaction(async (inner) => {
+          await inner.raw({ query: 'SELECT 4' }).execute()
+          throw new Error('inner failure')
+        })
+      ).rejects.toThrow('inner failure')
+    })
+
+    expect(client.getQueryHistory().map((q) => q.text)).toEqual([
+      'BEGIN',
+      'SELECT 1',
+      'SAVEPOINT sp_1',
+      'SELECT 2',
+      'SAVEPOINT sp_2',
+      'SELECT 3',
+      'RELEASE SAVEPOINT sp_2',
+      'RELEASE SAVEPOINT sp_1',
+      'SAVEPOINT sp_1',
+      'SELECT 4',
+      'ROLLBACK TO SAVEPOINT sp_1',
+      'COMMIT',
+    ])
+  })
+
+  it('rejects an isolation level on nested transactions', async () => {
+    const client = makeMockPgClient()
+    const qb = new PGQB(client)
+
+    await expect(
+      qb.transaction(async (tx) => {
+        await tx.transaction(async () => {}, { isolationLevel: 'READ COMMITTED' })
+      })
+    ).rejects.toThrow('Isolation level can only be set on the outermost transaction')
+
+    expect(client.getQueryHistory().map((q) => q.text)).toEqual(['BEGIN', 'ROLLBACK'])
+  })
+
+  it('checks out a single pool client for the transaction and releases it', async () => {
+    const poolClient = Object.assign(makeMockPgClient(), { released: 0, release: () => {} })
+    poolClient.release = () => {
+      poolClient.released++
+    }
+    const poolQueries: string[] = []
+    const pool = {
+      totalCount: 0,
+      connect: () => Promise.resolve(poolClient),
+      query(params: { text: string }) {
+        poolQueries.push(params.text)
+        return Promise.resolve({ command: 'OK', oid: null, rowCount: 0, rows: [] })
+      },
+    }
+    const qb = new PGQB(pool)
+
+    await expect(
+      qb.transaction(async (tx) => {
+        await tx.raw({ query: 'SELECT 1' }).execute()
+        throw new Error('boom')
+      })
+    ).rejects.toThrow('boom')
+
+    expect(poolQueries).toEqual([])
+    expect(poolClient.getQueryHistory().map((q) => q.text)).toEqual(['BEGIN', 'SELECT 1', 'ROLLBACK'])
+    expect(poolClient.released).toBe(1)
+  })
+})
+
+/**
+ * A mock pg client that serves FETCH statements from the given rows.
+ */
+function makeMockCursorClient(rows: any[], options?: { failOnFetch?: number }) {
+  const queryHistory: Array<{ text: string; values?: any[] }> = []
+  let position = 0
+  let fetches = 0
+
+  return {
+    query(params: { text: string; values?: any[] }) {
+      queryHistory.push(params)
+
+      const fetch = params.text.match(/^FETCH (\d+) FROM/)
+      if (fetch) {
+        fetches++
+        if (fetches === options?.failOnFetch) {
+          return Promise.reject(new Error('connection lost'))
+        }
+        const batch = rows.slice(position, position + Number(fetch[1]))
+        position += batch.length
+        return Promise.resolve({ command: 'FETCH', oid: null, rowCount: batch.length, rows: batch })
+      }
+
+      return Promise.resolve({ command: 'OK', oid: null, rowCount: 0, rows: [] })
+    },
+    getQueryHistory() {
+      return queryHistory.map((q) => q.text.replace(/workers_qb_cursor_\d+/, 'cursor'))
+    },
+    getValues() {
+      return queryHistory.map((q) => q.values)
+    },
+  }
+}
+
+describe('PGQB lazy execution', () => {
+  const users = [1, 2, 3, 4, 5].map((id) => ({ id }))
+
+  it('streams fetchAll({ lazy: true }) results through a cursor in batches', async () => {
+    const client = makeMockCursorClient(users)
+    const qb = new PGQB(client, { cursorBatchSize: 2 })
+
+    const result = await qb
+      .fetchAll({ tableName: 'users', where: { conditions: 'id > ?', params: [0] }, lazy: true })
+      .execute()
+
+    const rows = []
+    for await (const row of result.results!) {
+      rows.push(row)
+    }
+
+    expect(rows).toEqual(users)
+    expect(result.rowCount).toBe(5)
+    expect(client.getQueryHistory()).toEqual([
+      'BEGIN',
+      'DECLARE cursor NO SCROLL CURSOR FOR SELECT * FROM users WHERE id > $1',
+      'FETCH 2 FROM cursor',
+      'FETCH 2 FROM cursor',
+      'FETCH 2 FROM cursor',
+      'COMMIT',
+    ])
+    expect(client.getValues()[1]).toEqual([0])
+  })
+
+  it('accepts a batch size per query and can be iterated directly', async () => {
+    const client = makeMockCursorClient(users)
+    const qb = new PGQB(client)
+
+    const rows = []
+    for await (const row of await qb.lazyExecute(qb.select('users').getQueryAll(), { batchSize: 10 })) {
+      rows.push(row)
+    }
+
+    expect(rows).toEqual(users)
+    expect(client.getQueryHistory()).toEqual([
+      'BEGIN',
+      'DECLARE cursor NO SCROLL CURSOR FOR SELECT * FROM users',
+      'FETCH 10 FROM cursor',
+      'COMMIT',
+    ])
+  })
+
+  it('takes the batch size from the lazy option of fetchAll() and select().execute()', async () => {
+    const client = makeMockCursorClient(users)
+    const qb = new PGQB(client)
+
+    const fetched = await qb.fetchAll({ tableName: 'users', lazy: { batchSize: 3 } }).execute()
+    for await (const _ of fetched.results!) {
+      // consume
+    }
+    const selected = await qb.select('users').execute({ lazy: { batchSize: 7 } })
+    for await (const _ of selected.results!) {
+      // consume
+    }
+
+    expect(client.getQueryHistory().filter((query) => query.startsWith('FETCH'))).toEqual([
+      'FETCH 3 FROM cursor',
+      'FETCH 3 FROM cursor',
+      'FETCH 7 FROM cursor',
+    ])
+  })
+
+  it('commits when the iteration stops early', async () => {
+    const client = makeMockCursorClient(users)
+    const qb = new PGQB(client, { cursorBatchSize: 2 })
+
+    const result = await qb.select('users').execute({ lazy: true })
+    for await (const row of result.results!) {
+      if (row.id === 1) break
+    }
+
+    expect(client.getQueryHistory()).toEqual([
+      'BEGIN',
+      'DECLARE cursor NO SCROLL CURSOR FOR SELECT * FROM users',
+      'FETCH 2 FROM cursor',
+      'COMMIT',
+    ])
+  })
+
+  it('rolls back and rethrows when fetching fails', async () => {
+    const client = makeMockCursorClient(users, { failOnFetch: 2 })
+    const qb = new PGQB(client, { cursorBatchSize: 2 })
+
+    const result = await qb.fetchAll({ tableName: 'users', lazy: true }).execute()
+    const rows: any[] = []
+    await expect(async () => {
+      for await (const row of result.results!) {
+        rows.push(row)
+      }
+    }).rejects.toThrow('connection lost')
+
+    expect(rows).toEqual(users.slice(0, 2))
+    expect(client.getQueryHistory()).toEqual([
+      'BEGIN',
+      'DECLARE cursor NO SCROLL CURSOR FOR SELECT * FROM users',
+      'FETCH 2 FROM cursor',
+      'FETCH 2 FROM cursor',
+      'ROLLBACK',
+    ])
+  })
+
+  it('reuses the current transaction and closes the cursor', async () => {
+    const client = makeMockCursorClient(users)
+    const qb = new PGQB(client, { cursorBatchSize: 3 })
+
+    const count = await qb.transaction(async (tx) => {
+      let count = 0
+      for await (const _ of (await tx.fetchAll({ tableName: 'users', lazy: true }).execute()).results!) {
+        count++
+      }
+      return count
+    })
+
+    expect(count).toBe(5)
+    expect(client.getQueryHistory()).toEqual([
+      'BEGIN',
+      'DECLARE cursor NO SCROLL CURSOR FOR SELECT * FROM users',
+      'FETCH 3 FROM cursor',
+      'FETCH 3 FROM cursor',
+      'CLOSE cursor',
+      'COMMIT',
+    ])
+  })
+})
+
+describe('PGQB schema diff', () => {
+  function makeIntrospectionClient(columns: Array<Record<string, unknown>>, indexes: Array<string> = []) {
+    const queryHistory: Array<{ text: string; values?: any[] }> = []
+    return {
+      queryHistory,
+      query(params: { text: string; values?: any[] }) {
+        queryHistory.push(params)
+        if (params.text.includes('information_schema.columns')) return Promise.resolve({ rows: columns })
+        if (params.text.includes('pg_indexes')) {
+          return Promise.resolve({ rows: indexes.map((indexname) => ({ indexname })) })
+        }
+        return Promise.resolve({ rows: [] })
+      },
+    }
+  }
+
+  const users = defineTable(
+    'users',
+    {
+      id: integer().primaryKey({ autoIncrement: true }),
+      email: text().notNull(),
+      score: real().default(0),
+    },
+    { indexes: [{ columns: ['email'], unique: true }] }
+  )
+
+  it('creates missing tables with postgres column types', async () => {
+    const client = makeIntrospectionClient([])
+    const qb = new PGQB(client)
+
+    expect(await qb.migrations({ migrations: [] }).diff([users], { prefix: '0001' })).toEqual([
+      {
+        name: '0001_create_users_table',
+        sql: [
+          'CREATE TABLE "users" ("id" SERIAL PRIMARY KEY, "email" TEXT NOT NULL, "score" DOUBLE PRECISION DEFAULT 0);',
+          'CREATE UNIQUE INDEX "users_email_idx" ON "users" ("email");',
+        ].join('\n'),
+      },
+    ])
+    expect(client.queryHistory.find((query) => query.text.includes('information_schema'))?.values).toEqual(['users'])
+  })
+
+  it('alters columns in place', async () => {
+    const client = makeIntrospectionClient(
+      [
+        {
+          column_name: 'id',
+          data_type: 'integer',
+          is_nullable: 'NO',
+          column_default: "nextval('users_id_seq'::regclass)",
+        },
+        { column_name: 'email', data_type: 'character varying', is_nullable: 'YES', column_default: null },
+        { column_name: 'score', data_type: 'double precision', is_nullable: 'YES', column_default: '1' },
+        { column_name: 'legacy', data_type: 'text', is_nullable: 'YES', column_default: "'x'::text" },
+      ],
+      ['users_pkey']
+    )
+    const qb = new PGQB(client)
+
+    const [migration] = await qb.migrations({ migrations: [] }).diff([users], { prefix: '0002', dropColumns: true })
+
+    expect(migration?.sql.split('\n')).toEqual([
+      'ALTER TABLE "users" DROP COLUMN "legacy";',
+      'ALTER TABLE "users" ALTER COLUMN "email" TYPE TEXT;',
+      'ALTER TABLE "users" ALTER COLUMN "email" SET NOT NULL;',
+      'ALTER TABLE "users" ALTER COLUMN "score" SET DEFAULT 0;',
+      'CREATE UNIQUE INDEX "users_email_idx" ON "users" ("email");',
+    ])
+  })
+
+  it('returns no migrations when the table matches its definition', async () => {
+    const client = makeIntrospectionClient(
+      [
+        { column_name: 'id', data_type: 'integer', is_nullable: 'NO', column_default: "nextval('users_id_seq')" },
+        { column_name: 'email', data_type: 'text', is_nullable: 'NO', column_default: null },
+        { column_name: 'score', data_type: 'double precision', is_nullable: 'YES', column_default: '0' },
+      ],
+      ['users_pkey', 'users_email_idx']
     )
-    expect(queryHistory[3]?.values).toBeUndefined()
-    expect(queryHistory[4]?.text).toBe('INSERT INTO migrations (name) values ($1);')
-    expect(queryHistory[4]?.values).toEqual(['0001_create_users_table.sql'])
+    const qb = new PGQB(client)
+
+    expect(await qb.migrations({ migrations: [] }).diff([users])).toEqual([])
   })
 })
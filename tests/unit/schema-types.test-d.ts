@@ -1,6 +1,19 @@
 import { describe, expectTypeOf, it } from 'vitest'
-import { D1QB, DOQB, PGQB, QueryBuilder, syncLoggerWrapper } from '../../src'
+import {
+  D1QB,
+  DOQB,
+  defineSchema,
+  defineTable,
+  InferRow,
+  InferSchema,
+  integer,
+  PGQB,
+  QueryBuilder,
+  syncLoggerWrapper,
+  text,
+} from '../../src'
 import { DefaultReturnObject } from '../../src/interfaces'
+import { SelectBuilder } from '../../src/modularBuilder'
 import { Query } from '../../src/tools'
 
 // =============================================================================
@@ -448,6 +461,153 @@ describe('SelectBuilder with schema types', () => {
     const defaultResult = await qb.select('comments').execute()
     expectTypeOf(defaultResult).toHaveProperty('results')
   })
+
+  it('should keep the builder type inside where groups', () => {
+    const qb = new SchemaQueryBuilder()
+
+    const builder = qb.select('users').where((w) => {
+      expectTypeOf(w).toEqualTypeOf<SelectBuilder<TestSchema, {}, TestSchema['users'], true>>()
+      return w.where({ role: 'admin' }).orWhere('email LIKE ?', '%@example.com')
+    })
+
+    expectTypeOf(builder).toEqualTypeOf<SelectBuilder<TestSchema, {}, TestSchema['users'], true>>()
+  })
+})
+
+// =============================================================================
+// Tests: InsertBuilder with Schema Types
+// =============================================================================
+
+describe('InsertBuilder with schema types', () => {
+  it('should return a single row result for one row', async () => {
+    const qb = new SchemaQueryBuilder()
+
+    const result = await qb.insertInto('users').values({ name: 'John', role: 'admin' }).returning('*').execute()
+
+    expectTypeOf(result.results).toEqualTypeOf<TestSchema['users'] | undefined>()
+  })
+
+  it('should return an array result for multiple rows', async () => {
+    const qb = new SchemaQueryBuilder()
+
+    const result = await qb
+      .insertInto('posts')
+      .values([{ title: 'a' }, { title: 'b' }])
+      .returning('*')
+      .execute()
+
+    expectTypeOf(result.results).toEqualTypeOf<TestSchema['posts'][] | undefined>()
+  })
+
+  it('should work synchronously', () => {
+    const qb = new SyncSchemaQueryBuilder()
+
+    const result = qb.insertInto('comments').values({ content: 'hi' }).execute()
+
+    expectTypeOf(result.results).toEqualTypeOf<TestSchema['comments'] | undefined>()
+  })
+
+  it('should accept any object when schema is empty', async () => {
+    const qb = new EmptySchemaQueryBuilder()
+
+    const result = await qb.insertInto('anything').values({ foo: 'bar', baz: 1 }).execute()
+
+    expectTypeOf(result.results).toEqualTypeOf<DefaultReturnObject | undefined>()
+  })
+})
+
+// =============================================================================
+// Tests: UpdateBuilder with Schema Types
+// =============================================================================
+
+describe('UpdateBuilder with schema types', () => {
+  it('should return an array result', async () => {
+    const qb = new SchemaQueryBuilder()
+
+    const result = await qb.updateTable('users').set({ name: 'Jane' }).where('id = ?', 1).returning('*').execute()
+
+    expectTypeOf(result.results).toEqualTypeOf<TestSchema['users'][] | undefined>()
+  })
+
+  it('should keep the builder type through where helpers', () => {
+    const qb = new SyncSchemaQueryBuilder()
+
+    const builder = qb.updateTable('posts').set({ published: true }).whereIn('id', [1, 2]).whereNull('body')
+
+    expectTypeOf(builder.execute().results).toEqualTypeOf<TestSchema['posts'][] | undefined>()
+  })
+})
+
+// =============================================================================
+// Tests: DeleteBuilder with Schema Types
+// =============================================================================
+
+describe('DeleteBuilder with schema types', () => {
+  it('should return an array result', async () => {
+    const qb = new SchemaQueryBuilder()
+
+    const result = await qb.deleteFrom('comments').where('post_id = ?', 1).returning('*').execute()
+
+    expectTypeOf(result.results).toEqualTypeOf<TestSchema['comments'][] | undefined>()
+  })
+
+  it('should keep the builder type through all() and ordering', () => {
+    const qb = new SyncSchemaQueryBuilder()
+
+    const result = qb.deleteFrom('posts').all().orderBy({ id: 'DESC' }).limit(10).execute()
+
+    expectTypeOf(result.results).toEqualTypeOf<TestSchema['posts'][] | undefined>()
+  })
+})
+
+// =============================================================================
+// Tests: Object-Style Where with Schema Types
+// =============================================================================
+
+describe('Object-style where with schema types', () => {
+  it('should accept table columns and operators in fetchAll, update and delete', async () => {
+    const qb = new SchemaQueryBuilder()
+
+    const users = await qb
+      .fetchAll({
+        tableName: 'users',
+        where: { role: 'admin', id: { in: [1, 2, 3] }, metadata: null },
+      })
+      .execute()
+    expectTypeOf(users).toHaveProperty('results')
+
+    qb.update({
+      tableName: 'posts',
+      data: { published: true },
+      where: { user_id: { gte: 10, lt: 20 } },
+    })
+    qb.delete({
+      tableName: 'comments',
+      where: { post_id: 1, content: { like: '%spam%' } },
+    })
+  })
+
+  it('should type SelectBuilder.where() objects against the table columns', () => {
+    const qb = new SchemaQueryBuilder()
+
+    const builder = qb.select('users').where({ role: 'user', name: { ne: null } })
+    expectTypeOf(builder.getQueryAll().query).toBeString()
+
+    // @ts-expect-error - unknown column
+    qb.select('users').where({ title: 'Hello' })
+    // @ts-expect-error - value does not match the column type
+    qb.select('users').where({ role: 'guest' })
+    const postsUpdate = qb.updateTable('posts').set({ published: false })
+    // @ts-expect-error - operator value does not match the column type
+    postsUpdate.where({ id: { in: ['1'] } })
+  })
+
+  it('should accept any column when schema is empty', () => {
+    const qb = new EmptySchemaQueryBuilder()
+
+    qb.select('anything').where({ whatever: 1, other: { between: [1, 2] } })
+    qb.deleteFrom('anything').where({ id: { notIn: [1, 2] } })
+  })
 })
 
 // =============================================================================
@@ -724,3 +884,65 @@ describe('Query object types', () => {
     expectTypeOf(query).toHaveProperty('arguments')
   })
 })
+
+// =============================================================================
+// Table Definition Inference
+// =============================================================================
+
+describe('Table Definition Inference', () => {
+  const users = defineTable('users', {
+    id: integer().primaryKey({ autoIncrement: true }),
+    email: text().notNull().unique(),
+    role: text<'admin' | 'user'>().notNull().default('user'),
+    nickname: text(),
+  })
+  const posts = defineTable('posts', {
+    id: integer().primaryKey(),
+    user_id: integer().notNull().references('users'),
+    title: text().notNull(),
+  })
+  const schema = defineSchema(users, posts)
+
+  it('should infer the row type of a table', () => {
+    expectTypeOf<InferRow<typeof users>>().toEqualTypeOf<{
+      id: number
+      email: string
+      role: 'admin' | 'user'
+      nickname: string | null
+    }>()
+  })
+
+  it('should infer the schema of the tables', () => {
+    type Schema = InferSchema<typeof schema>
+
+    expectTypeOf<keyof Schema>().toEqualTypeOf<'users' | 'posts'>()
+    expectTypeOf<Schema['posts']>().toEqualTypeOf<{ id: number; user_id: number; title: string }>()
+  })
+
+  it('should type query builders with the inferred schema', () => {
+    class DefinedSchemaQueryBuilder extends QueryBuilder<InferSchema<typeof schema>, {}, true> {
+      async execute(query: Query): Promise<Query<any>> {
+        return { results: {} } as any
+      }
+
+      async lazyExecute(query: Query<any, true>): Promise<AsyncIterable<any>> {
+        return (async function* () {})()
+      }
+    }
+    const qb = new DefinedSchemaQueryBuilder()
+
+    qb.select('users').where({ role: 'admin', nickname: null })
+    qb.insert({ tableName: 'posts', data: { user_id: 1, title: 'Hello' } })
+    // @ts-expect-error - 'name' is not a column of users
+    qb.select('users').where({ name: 'John' })
+    // @ts-expect-error - 'guest' is not a role
+    qb.select('users').where({ role: 'guest' })
+  })
+
+  it('should only allow default values of the column type', () => {
+    // @ts-expect-error - an integer column cannot default to a string
+    integer().default('zero')
+    // @ts-expect-error - 'guest' is not a role
+    text<'admin' | 'user'>().default('guest')
+  })
+})
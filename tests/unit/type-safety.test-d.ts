@@ -1,4 +1,5 @@
 import { describe, expectTypeOf, it } from 'vitest'
+import { AnyMigration, D1MigrationOptions, D1QB, DOMigration, DOQB, PGMigrationOptions, PGQB } from '../../src'
 import { Raw } from '../../src/tools'
 
 describe('Type safety', () => {
@@ -13,3 +14,21 @@ describe('Type safety', () => {
     expectTypeOf(Raw).constructorParameters.toEqualTypeOf<[string]>()
   })
 })
+
+describe('Data migration types', () => {
+  it('types up() with the query builder applying the migrations', () => {
+    expectTypeOf<Parameters<Extract<DOMigration, { up: unknown }>['up']>[0]>().toEqualTypeOf<DOQB<any>>()
+    expectTypeOf<D1MigrationOptions['migrations'][number]>().toEqualTypeOf<AnyMigration<D1QB<any>>>()
+    expectTypeOf<PGMigrationOptions['migrations'][number]>().toEqualTypeOf<AnyMigration<PGQB<any>>>()
+  })
+
+  it('only accepts synchronous up() functions for Durable Objects', () => {
+    const seed = (qb: DOQB) => {
+      qb.insert({ tableName: 'logs', data: { name: 'seeded' } }).execute()
+    }
+
+    expectTypeOf<{ name: string; up: typeof seed }>().toExtend<DOMigration>()
+    expectTypeOf<{ name: string; up: () => Promise<void> }>().not.toExtend<DOMigration>()
+    expectTypeOf<{ name: string; up: () => Promise<void> }>().toExtend<D1MigrationOptions['migrations'][number]>()
+  })
+})
@@ -1,4 +1,6 @@
 import { describe, expect, it } from 'vitest'
+import { ConflictTypes } from '../../src/enums'
+import { MissingDataError } from '../../src/errors'
 import { Raw } from '../../src/tools'
 import { QuerybuilderTest } from '../utils'
 
@@ -491,3 +493,132 @@ describe('Update Builder', () => {
     expect(result.fetchType).toEqual('ALL')
   })
 })
+
+describe('Fluent UpdateBuilder', () => {
+  it('update with where', async () => {
+    const result = new QuerybuilderTest()
+      .updateTable('testTable')
+      .set({ my_field: 'test_data' })
+      .where('id = ?', 1)
+      .getQuery()
+
+    expect(result.query).toEqual('UPDATE testTable SET my_field = ?2 WHERE id = ?1')
+    expect(result.arguments).toEqual([1, 'test_data'])
+    expect(result.fetchType).toEqual('ALL')
+  })
+
+  it('set() merges columns across calls', async () => {
+    const result = new QuerybuilderTest()
+      .updateTable('testTable')
+      .set({ name: 'John' })
+      .set({ updated_at: new Raw('CURRENT_TIMESTAMP'), age: 30 })
+      .where('id = ?', 1)
+      .getQuery()
+
+    expect(result.query).toEqual(
+      'UPDATE testTable SET name = ?2, updated_at = CURRENT_TIMESTAMP, age = ?3 WHERE id = ?1'
+    )
+    expect(result.arguments).toEqual([1, 'John', 30])
+  })
+
+  it('update with whereIn and returning', async () => {
+    const result = new QuerybuilderTest()
+      .updateTable('users')
+      .set({ status: 'inactive' })
+      .whereIn('id', [1, 2, 3])
+      .returning('*')
+      .getQuery()
+
+    expect(result.query).toEqual('UPDATE users SET status = ?4 WHERE (id) IN (VALUES (?1), (?2), (?3)) RETURNING *')
+    expect(result.arguments).toEqual([1, 2, 3, 'inactive'])
+  })
+
+  it('an empty whereIn matches no rows', async () => {
+    const result = new QuerybuilderTest()
+      .updateTable('users')
+      .set({ status: 'inactive' })
+      .where('org = ?', 1)
+      .whereIn('id', [])
+      .getQuery()
+
+    expect(result.query).toEqual('UPDATE users SET status = ?2 WHERE (org = ?1) AND (0 = 1)')
+    expect(result.arguments).toEqual([1, 'inactive'])
+  })
+
+  it('throws for an empty whereNotIn or notIn list', async () => {
+    const qb = new QuerybuilderTest()
+
+    expect(() => qb.updateTable('users').set({ status: 'inactive' }).where('org = ?', 1).whereNotIn('id', [])).toThrow(
+      'Empty whereNotIn() list for id in UPDATE'
+    )
+    expect(() => qb.update({ tableName: 'users', data: { status: 'inactive' }, where: { id: { notIn: [] } } })).toThrow(
+      'Empty notIn list for column id in UPDATE'
+    )
+  })
+
+  it('update with convenience where helpers', async () => {
+    const result = new QuerybuilderTest()
+      .updateTable('users')
+      .set({ archived: true })
+      .whereNull('deleted_at')
+      .whereBetween('age', [18, 30])
+      .whereLike('email', '%@example.com')
+      .when(false, (q) => q.where('never = ?', 1))
+      .getQuery()
+
+    expect(result.query).toEqual(
+      'UPDATE users SET archived = ?4 WHERE (deleted_at IS NULL) AND (age BETWEEN ?1 AND ?2) AND (email LIKE ?3)'
+    )
+    expect(result.arguments).toEqual([18, 30, '%@example.com', true])
+  })
+
+  it('update with orWhere', async () => {
+    const result = new QuerybuilderTest()
+      .updateTable('users')
+      .set({ flagged: 1 })
+      .where('status = ?', 'banned')
+      .orWhere('reports > ?', 10)
+      .getQuery()
+
+    expect(result.query).toEqual('UPDATE users SET flagged = ?3 WHERE (status = ?1) OR (reports > ?2)')
+    expect(result.arguments).toEqual(['banned', 10, 1])
+  })
+
+  it('update with subquery in where', async () => {
+    const qb = new QuerybuilderTest()
+    const result = qb
+      .updateTable('users')
+      .set({ status: 'vip' })
+      .where('id IN ?', qb.select('orders').fields('user_id').where('total > ?', 1000))
+      .getQuery()
+
+    expect(result.query).toEqual(
+      'UPDATE users SET status = ?2 WHERE id IN (SELECT user_id FROM orders WHERE total > ?1)'
+    )
+    expect(result.arguments).toEqual([1000, 'vip'])
+  })
+
+  it('update with conflict type', async () => {
+    const result = new QuerybuilderTest()
+      .updateTable('users')
+      .set({ email: 'a@b.c' })
+      .where('id = ?', 1)
+      .onConflict(ConflictTypes.IGNORE)
+      .getQuery()
+
+    expect(result.query).toEqual('UPDATE OR IGNORE users SET email = ?2 WHERE id = ?1')
+  })
+
+  it('builder is immutable', async () => {
+    const base = new QuerybuilderTest().updateTable('users').set({ name: 'John' })
+    const filtered = base.where('id = ?', 1)
+
+    expect(base.toSQL()).toEqual({ sql: 'UPDATE users SET name = ?1', params: ['John'] })
+    expect(filtered.toSQL()).toEqual({ sql: 'UPDATE users SET name = ?2 WHERE id = ?1', params: [1, 'John'] })
+    expect(filtered.toDebugSQL()).toEqual("UPDATE users SET name = 'John' WHERE id = 1")
+  })
+
+  it('throws MissingDataError when set() was not called', async () => {
+    expect(() => new QuerybuilderTest().updateTable('users').where('id = ?', 1).getQuery()).toThrow(MissingDataError)
+  })
+})